@@ -0,0 +1,366 @@
+import { IsoDate, TradeWithPrice } from "./types.js";
+import { DateRange, DateRangeOptions, daysAgo, daysBetween, rangeDateOf, resolveDateRange, toDate, toIsoDate } from "./dates.js";
+import { getPoliticianId, getTradesInRange, rankBuyMomentumAssets, rankPartyBuyMomentum } from "./politician-trades-scraper.js";
+import { getPriceDir, loadPriceSeries, PriceSeries, priceOnOrBefore, priceTicker } from "./price-history.js";
+import { logDebug } from "./logger.js";
+
+/**
+ * Copy-trading backtests: replay a strategy built on politicians' trades against local price history
+ * The portfolio holds its target assets in equal weights, valued at daily closes, and trades only
+ * when the strategy's targets change; cash earns nothing and there are no costs or slippage
+ */
+
+/**
+ * - "mirror_politician": buy what one politician buys, hold for holdDays or until they disclose a sale
+ * - "party_momentum": every rebalanceDays, hold the top assets one party is net buying (as get_party_buy_momentum ranks them)
+ * - "buy_momentum": every rebalanceDays, hold the top assets all politicians are net buying (as get_buy_momentum_assets ranks them)
+ */
+export type BacktestStrategy = "mirror_politician" | "party_momentum" | "buy_momentum";
+
+export interface BacktestOptions {
+  strategy: BacktestStrategy;
+  // mirror_politician: whose trades to copy
+  politician?: string;
+  // party_momentum: which ranking to hold
+  party?: "DEMOCRAT" | "REPUBLICAN" | "CONSENSUS";
+  // Act on the disclosure date (what a copier could actually do) or the trade date (hindsight)
+  entry?: "disclosure" | "trade";
+  // mirror_politician: days to hold each buy
+  holdDays?: number;
+  // Momentum strategies: assets to hold, days of trades to rank and days between rebalances
+  topN?: number;
+  lookbackDays?: number;
+  rebalanceDays?: number;
+  benchmark?: string;
+  initialCapital?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  party: "DEMOCRAT",
+  entry: "disclosure",
+  holdDays: 90,
+  topN: 5,
+  lookbackDays: 90,
+  rebalanceDays: 30,
+  benchmark: "SPY",
+  initialCapital: 10000,
+} as const;
+
+/**
+ * What the strategy wants to hold from a date on: the first `limit` candidates that have prices
+ */
+interface TargetChange {
+  date: IsoDate;
+  candidates: string[];
+  limit: number;
+}
+
+interface EquityPoint {
+  date: IsoDate;
+  equity: number;
+  benchmarkEquity: number;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+const addDays = (date: IsoDate, days: number) => daysAgo(-days, toDate(date));
+
+function checkWholeNumber(name: string, value: number, min: number) {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be a whole number of at least ${min}`);
+  }
+}
+
+/**
+ * Fill in defaults and reject options that don't fit the strategy
+ */
+function resolveOptions(options: BacktestOptions) {
+  const given = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined && value !== null));
+  const resolved = { ...DEFAULT_OPTIONS, ...(given as BacktestOptions) };
+  if (!["mirror_politician", "party_momentum", "buy_momentum"].includes(resolved.strategy)) {
+    throw new Error("strategy must be 'mirror_politician', 'party_momentum' or 'buy_momentum'");
+  }
+  if (resolved.strategy === "mirror_politician" && !resolved.politician) {
+    throw new Error("politician is required for the mirror_politician strategy");
+  }
+  if (!["DEMOCRAT", "REPUBLICAN", "CONSENSUS"].includes(resolved.party)) {
+    throw new Error("party must be 'DEMOCRAT', 'REPUBLICAN' or 'CONSENSUS'");
+  }
+  if (resolved.entry !== "disclosure" && resolved.entry !== "trade") {
+    throw new Error("entry must be 'disclosure' or 'trade'");
+  }
+  checkWholeNumber("holdDays", resolved.holdDays, 1);
+  checkWholeNumber("topN", resolved.topN, 1);
+  checkWholeNumber("lookbackDays", resolved.lookbackDays, 1);
+  checkWholeNumber("rebalanceDays", resolved.rebalanceDays, 1);
+  if (!Number.isFinite(resolved.initialCapital) || resolved.initialCapital <= 0) {
+    throw new Error("initialCapital must be a positive number");
+  }
+  return resolved;
+}
+
+type ResolvedOptions = ReturnType<typeof resolveOptions>;
+
+/**
+ * Trades with a known signal date, oldest first
+ */
+function bySignalDate(trades: TradeWithPrice[], entry: DateRange["field"]) {
+  return trades
+    .map((trade) => ({ trade, date: rangeDateOf(trade, entry) }))
+    .filter((signal): signal is { trade: TradeWithPrice; date: IsoDate } => signal.date !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Mirror one politician: each buy opens (or extends) a holding for holdDays; a disclosed sale closes it
+ */
+function mirrorTargets(trades: TradeWithPrice[], options: ResolvedOptions, start: IsoDate, end: IsoDate): TargetChange[] {
+  const holdings: Array<{ ticker: string; from: IsoDate; to: IsoDate }> = [];
+  const open = new Map<string, { ticker: string; from: IsoDate; to: IsoDate }>();
+
+  for (const { trade, date } of bySignalDate(trades, options.entry)) {
+    const ticker = priceTicker(trade.issuer.ticker);
+    const type = trade.transaction.type?.toLowerCase();
+    if (!ticker || date < start || date > end) {
+      continue;
+    }
+    let holding = open.get(ticker);
+    if (holding && holding.to <= date) {
+      open.delete(ticker);
+      holding = undefined;
+    }
+    if (type === "buy") {
+      if (holding) {
+        const extended = addDays(date, options.holdDays);
+        holding.to = extended > holding.to ? extended : holding.to;
+      } else {
+        holding = { ticker, from: date, to: addDays(date, options.holdDays) };
+        open.set(ticker, holding);
+        holdings.push(holding);
+      }
+    } else if (type === "sell" && holding) {
+      holding.to = date;
+      open.delete(ticker);
+    }
+  }
+
+  const changeDates = Array.from(new Set(holdings.flatMap((holding) => [holding.from, holding.to])))
+    .filter((date) => date <= end)
+    .sort();
+  return changeDates.map((date) => ({
+    date,
+    candidates: Array.from(new Set(holdings.filter((holding) => holding.from <= date && date < holding.to).map((holding) => holding.ticker))),
+    limit: Infinity,
+  }));
+}
+
+/**
+ * Momentum: every rebalanceDays, rank the trades signalled in the previous lookbackDays
+ */
+function momentumTargets(trades: TradeWithPrice[], options: ResolvedOptions, start: IsoDate, end: IsoDate): TargetChange[] {
+  const signals = bySignalDate(trades, options.entry);
+  const changes: TargetChange[] = [];
+
+  for (let date = start; date <= end; date = addDays(date, options.rebalanceDays)) {
+    const lookbackStart = addDays(date, -options.lookbackDays);
+    const window = signals.filter((signal) => signal.date > lookbackStart && signal.date <= date).map((signal) => signal.trade);
+
+    let ranked: Array<{ ticker: string }>;
+    if (options.strategy === "buy_momentum") {
+      ranked = rankBuyMomentumAssets(window, Infinity);
+    } else {
+      const ranking = rankPartyBuyMomentum(window, Infinity);
+      ranked = options.party === "CONSENSUS" ? ranking.consensus : options.party === "REPUBLICAN" ? ranking.republicanFavorites : ranking.democratFavorites;
+    }
+
+    const candidates = ranked.map((asset) => priceTicker(asset.ticker)).filter((ticker): ticker is string => ticker !== null);
+    changes.push({ date, candidates: Array.from(new Set(candidates)), limit: options.topN });
+  }
+  return changes;
+}
+
+/**
+ * Largest peak-to-trough fall of an equity curve, in percent
+ */
+function maxDrawdown(points: Array<{ date: IsoDate; value: number }>) {
+  let peak = points[0];
+  let worst = { pct: 0, peakDate: null as IsoDate | null, troughDate: null as IsoDate | null };
+  for (const point of points) {
+    if (point.value > peak.value) {
+      peak = point;
+    }
+    const drawdown = (point.value / peak.value - 1) * 100;
+    if (drawdown < worst.pct) {
+      worst = { pct: drawdown, peakDate: peak.date, troughDate: point.date };
+    }
+  }
+  return { ...worst, pct: round(worst.pct) };
+}
+
+/**
+ * Total and compound annual growth, in percent
+ */
+function growth(start: number, end: number, from: IsoDate, to: IsoDate) {
+  const years = daysBetween(from, to) / 365.25;
+  return {
+    totalReturnPct: round((end / start - 1) * 100),
+    cagrPct: years > 0 ? round(((end / start) ** (1 / years) - 1) * 100) : null,
+  };
+}
+
+/**
+ * Keep the last trading day of each week, plus the first and last day
+ */
+function weeklyPoints(curve: EquityPoint[]): EquityPoint[] {
+  return curve.filter((point, index) => {
+    const next = curve[index + 1];
+    if (index === 0 || !next) {
+      return true;
+    }
+    return toDate(next.date).getUTCDay() <= toDate(point.date).getUTCDay() || daysBetween(point.date, next.date) >= 7;
+  });
+}
+
+/**
+ * Backtest a copy-trading strategy over a window, against buying and holding a benchmark
+ * Trades come from the same fetch as the stats and momentum tools; prices from the local price directory
+ * @param options - Strategy and its settings (see BacktestOptions)
+ * @param window - The period to simulate; it needs a start (e.g., days: 365 or period: '2024')
+ * @param maxPages - Optional page budget for fetching trades
+ * @returns Equity curve (weekly), CAGR, maximum drawdown, turnover and the benchmark's results
+ */
+export async function runBacktest(options: BacktestOptions, window: number | DateRangeOptions, maxPages?: number) {
+  try {
+    const resolved = resolveOptions(options);
+    const range = resolveDateRange(window);
+    const today = toIsoDate(new Date());
+    const start = range.from;
+    const end = range.to && range.to < today ? range.to : today;
+    if (!start) {
+      throw new Error("the window needs a start date (e.g., days: 365 or period: 'since 2023-01-01')");
+    }
+
+    const benchmarkTicker = priceTicker(resolved.benchmark);
+    const benchmark = benchmarkTicker ? await loadPriceSeries(benchmarkTicker) : null;
+    if (!benchmarkTicker || !benchmark) {
+      throw new Error(`No price history for benchmark ${resolved.benchmark} in ${getPriceDir()}`);
+    }
+    const tradingDays = benchmark.bars.map((bar) => bar.date).filter((date) => date >= start && date <= end);
+    if (tradingDays.length < 2) {
+      throw new Error(`The ${benchmarkTicker} price history has fewer than 2 days between ${start} and ${end}`);
+    }
+
+    // Momentum strategies rank trades from before the first rebalance too
+    const lookback = resolved.strategy === "mirror_politician" ? 0 : resolved.lookbackDays;
+    const fetchRange: DateRange = { from: addDays(start, -lookback), to: end, field: resolved.entry };
+    const filters = resolved.strategy === "mirror_politician" ? { politicianId: await getPoliticianId(resolved.politician!) } : {};
+    const { trades, coverage } = await getTradesInRange(fetchRange, filters, maxPages);
+    logDebug(`Backtesting ${resolved.strategy} on ${trades.length} trades from ${fetchRange.from} to ${end}`);
+
+    const changes = resolved.strategy === "mirror_politician" ? mirrorTargets(trades, resolved, start, end) : momentumTargets(trades, resolved, start, end);
+
+    // Load every candidate's prices once
+    const seriesByTicker = new Map<string, PriceSeries | null>([[benchmarkTicker, benchmark]]);
+    for (const ticker of new Set(changes.flatMap((change) => change.candidates))) {
+      if (!seriesByTicker.has(ticker)) {
+        seriesByTicker.set(ticker, await loadPriceSeries(ticker));
+      }
+    }
+
+    let cash = resolved.initialCapital;
+    const shares = new Map<string, number>();
+    const lastPrice = new Map<string, number>();
+    const priceOn = (ticker: string, date: IsoDate): number | null => {
+      const point = priceOnOrBefore(seriesByTicker.get(ticker)!, date);
+      if (point) {
+        lastPrice.set(ticker, point.price);
+      }
+      return point?.price ?? null;
+    };
+
+    const curve: EquityPoint[] = [];
+    const rebalances: Array<{ date: IsoDate; holdings: string[]; turnoverPct: number }> = [];
+    const benchmarkStart = priceOnOrBefore(benchmark, tradingDays[0])!.price;
+    let turnover = 0;
+    let investedDays = 0;
+    let nextChange = 0;
+
+    for (const day of tradingDays) {
+      // Value the portfolio, carrying a price forward when its file has no bar for the day
+      for (const ticker of shares.keys()) {
+        priceOn(ticker, day);
+      }
+      const value = cash + Array.from(shares.entries()).reduce((sum, [ticker, count]) => sum + count * lastPrice.get(ticker)!, 0);
+
+      // Apply the latest target change on or before this day (e.g., a Saturday disclosure trades on Monday)
+      let change: TargetChange | null = null;
+      while (nextChange < changes.length && changes[nextChange].date <= day) {
+        change = changes[nextChange++];
+      }
+      if (change) {
+        const holdings = change.candidates.filter((ticker) => seriesByTicker.get(ticker) && priceOn(ticker, day) !== null).slice(0, change.limit);
+        const oldWeights = new Map(Array.from(shares.entries()).map(([ticker, count]) => [ticker, (count * lastPrice.get(ticker)!) / value]));
+        const newWeight = holdings.length > 0 ? 1 / holdings.length : 0;
+        const traded = new Set([...oldWeights.keys(), ...holdings]);
+        // One-way turnover: half the total change in weights, counting cash as a position
+        const cashChange = Math.abs((holdings.length > 0 ? 0 : 1) - cash / value);
+        const oneWay = Array.from(traded).reduce((sum, ticker) => sum + Math.abs((holdings.includes(ticker) ? newWeight : 0) - (oldWeights.get(ticker) ?? 0)), cashChange) / 2;
+
+        shares.clear();
+        for (const ticker of holdings) {
+          shares.set(ticker, (value * newWeight) / lastPrice.get(ticker)!);
+        }
+        cash = holdings.length > 0 ? 0 : value;
+        turnover += oneWay;
+        rebalances.push({ date: day, holdings, turnoverPct: round(oneWay * 100) });
+      }
+
+      if (shares.size > 0) {
+        investedDays++;
+      }
+      const benchmarkPrice = priceOnOrBefore(benchmark, day)!.price;
+      curve.push({ date: day, equity: value, benchmarkEquity: (resolved.initialCapital * benchmarkPrice) / benchmarkStart });
+    }
+
+    const first = curve[0];
+    const last = curve[curve.length - 1];
+    const years = daysBetween(first.date, last.date) / 365.25;
+    const strategyGrowth = growth(resolved.initialCapital, last.equity, first.date, last.date);
+    const benchmarkGrowth = growth(resolved.initialCapital, last.benchmarkEquity, first.date, last.date);
+    const missingPriceHistory = Array.from(seriesByTicker.entries())
+      .filter(([, series]) => !series)
+      .map(([ticker]) => ticker)
+      .sort();
+
+    return {
+      strategy: resolved,
+      window: { from: first.date, to: last.date },
+      tradesConsidered: trades.length,
+      coverage,
+      priceDir: getPriceDir(),
+      missingPriceHistory,
+      initialCapital: resolved.initialCapital,
+      finalEquity: round(last.equity),
+      ...strategyGrowth,
+      maxDrawdown: maxDrawdown(curve.map((point) => ({ date: point.date, value: point.equity }))),
+      rebalanceCount: rebalances.length,
+      totalTurnoverPct: round(turnover * 100),
+      annualizedTurnoverPct: years > 0 ? round((turnover * 100) / years) : null,
+      investedDaysPct: round((investedDays / curve.length) * 100),
+      benchmark: {
+        ticker: benchmarkTicker,
+        finalEquity: round(last.benchmarkEquity),
+        ...benchmarkGrowth,
+        maxDrawdown: maxDrawdown(curve.map((point) => ({ date: point.date, value: point.benchmarkEquity }))),
+      },
+      excessReturnPct: round(strategyGrowth.totalReturnPct - benchmarkGrowth.totalReturnPct),
+      excessCagrPct: strategyGrowth.cagrPct !== null && benchmarkGrowth.cagrPct !== null ? round(strategyGrowth.cagrPct - benchmarkGrowth.cagrPct) : null,
+      disclaimer: "Hypothetical results on the price files provided, without costs, slippage or taxes. Not investment advice.",
+      equityCurve: weeklyPoints(curve).map((point) => ({ date: point.date, equity: round(point.equity), benchmarkEquity: round(point.benchmarkEquity) })),
+      rebalances,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to run backtest: ${errorMessage}`);
+  }
+}
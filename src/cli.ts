@@ -0,0 +1,426 @@
+import { parseArgs } from "util";
+import { TradeWithPrice } from "./types.js";
+import { getAssetStats, getBuyMomentumAssets, getPartyBuyMomentum, getPoliticianStats, getPoliticianTrades, rankPartyBuyMomentum } from "./scraper.js";
+import { exportTrades, formatTrades } from "./trade-export.js";
+import { getDateRangeArgs, getMaxPagesArg, getTradeFilterArgs, getTradePageArgs, getTradeQueryArgs } from "./tool-args.js";
+
+/**
+ * Command-line interface: the same queries as the MCP tools, printed as tables, JSON, CSV or NDJSON
+ * e.g. mcp-capitol-trades trades --politician "Pelosi" --days 90 --format table
+ */
+
+export const CLI_COMMANDS = ["trades", "stats", "momentum", "party-momentum", "serve", "help"];
+
+/**
+ * Where command output goes (standard output and error by default; tests capture it)
+ */
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultOutput: CliOutput = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+const USAGE = `Usage: mcp-capitol-trades [command] [options]
+
+With no command, runs the MCP server on stdio.
+
+Commands:
+  trades           List politician trades
+  stats            Trading statistics for a politician (--politician) or an asset (--symbol)
+  momentum         Assets politicians are net buying
+  party-momentum   Buy momentum by party: consensus, Democrat and Republican favorites
+  serve            Run the MCP server (stdio, or over HTTP with --http <port>)
+  help             Show this help
+
+Date window (trades, stats, momentum, party-momentum):
+  --days <n>                 Look back n days (default: 90)
+  --from <date>, --to <date> Explicit bounds (e.g., 2024-01-01, 2024-03, Q2 2024)
+  --period <expr>            Calendar window (e.g., 'Q2 2024', 'H1 2023', 'since 2023-01-01')
+  --date-field <field>       trade (default) or disclosure
+  --max-pages <n>            Maximum result pages to fetch
+
+trades options:
+  --symbol <ticker>          Ticker, company name or issuer ID
+  --politician <name>        Politician name or ID
+  --party <party>            democrat or republican
+  --type <types>             Comma-separated: buy, sell, receive, exchange
+  --chamber <chamber>        house or senate
+  --state <code>             Two-letter state code
+  --owner <owners>           Comma-separated: self, spouse, child, joint
+  --min-size <usd>, --max-size <usd>
+  --asset-type <slugs>, --sector <slugs>
+  --limit <n>                Trades per page (default: 50, max: 1000)
+  --sort-by <field>          tradeDate, disclosureDate, size or reportingGap
+  --sort-direction <dir>     asc or desc
+  --cursor <cursor>          Next page of a previous listing
+  --format <format>          table (default), json, csv or ndjson
+  --output <file>            Write to a .csv, .ndjson or .parquet file instead
+
+stats options:
+  --politician <name> | --symbol <ticker>
+  --include-profile          Include the politician's or issuer's profile
+  --format <format>          table (default) or json
+
+momentum / party-momentum options:
+  --limit <n>                Assets to list (default: 10 / 5)
+  --format <format>          table (default) or json
+
+serve options:
+  --http <port>              Serve over HTTP/SSE instead of stdio
+  --host <host>              Interface to listen on (default: 127.0.0.1)
+  --cors-origin <origins>    Comma-separated origins allowed from browsers
+  --poll                     Send watchlist notifications in the background
+`;
+
+const WINDOW_OPTIONS = {
+  days: { type: "string" },
+  from: { type: "string" },
+  to: { type: "string" },
+  period: { type: "string" },
+  "date-field": { type: "string" },
+  "max-pages": { type: "string" },
+  format: { type: "string" },
+} as const;
+
+const TRADES_OPTIONS = {
+  ...WINDOW_OPTIONS,
+  symbol: { type: "string" },
+  politician: { type: "string" },
+  party: { type: "string" },
+  type: { type: "string" },
+  chamber: { type: "string" },
+  state: { type: "string" },
+  owner: { type: "string" },
+  "min-size": { type: "string" },
+  "max-size": { type: "string" },
+  "asset-type": { type: "string" },
+  sector: { type: "string" },
+  limit: { type: "string" },
+  "sort-by": { type: "string" },
+  "sort-direction": { type: "string" },
+  cursor: { type: "string" },
+  output: { type: "string" },
+} as const;
+
+const STATS_OPTIONS = {
+  ...WINDOW_OPTIONS,
+  symbol: { type: "string" },
+  politician: { type: "string" },
+  "include-profile": { type: "boolean" },
+} as const;
+
+const MOMENTUM_OPTIONS = {
+  ...WINDOW_OPTIONS,
+  limit: { type: "string" },
+} as const;
+
+type OptionValues = Record<string, string | boolean | undefined>;
+
+const toNumber = (value: string | boolean | undefined) => (typeof value === "string" ? Number(value) : undefined);
+
+const toList = (value: string | boolean | undefined, upperCase: boolean = false) =>
+  typeof value === "string"
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => (upperCase ? item.toUpperCase() : item))
+    : undefined;
+
+/**
+ * Translate command-line options into the argument shape the MCP tools take, so both go through the same validation
+ */
+function toToolArgs(values: OptionValues): Record<string, unknown> {
+  const args: Record<string, unknown> = {
+    days: toNumber(values.days),
+    from: values.from,
+    to: values.to,
+    period: values.period,
+    dateField: values["date-field"],
+    maxPages: toNumber(values["max-pages"]),
+    symbol: values.symbol,
+    politician: values.politician,
+    party: typeof values.party === "string" ? values.party.toUpperCase() : undefined,
+    type: toList(values.type, true),
+    chamber: typeof values.chamber === "string" ? values.chamber.toUpperCase() : undefined,
+    state: values.state,
+    owner: toList(values.owner, true),
+    minSize: toNumber(values["min-size"]),
+    maxSize: toNumber(values["max-size"]),
+    assetType: toList(values["asset-type"]),
+    sector: toList(values.sector),
+    sortBy: values["sort-by"],
+    sortDirection: values["sort-direction"],
+    cursor: values.cursor,
+  };
+  return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+}
+
+function getLimitOption(values: OptionValues, fallback: number, max: number): number {
+  const limit = toNumber(values.limit) ?? fallback;
+  if (!Number.isInteger(limit) || limit < 1 || limit > max) {
+    throw new Error(`--limit must be a whole number between 1 and ${max}`);
+  }
+  return limit;
+}
+
+function getFormatOption(values: OptionValues, allowed: string[]): string {
+  const format = typeof values.format === "string" ? values.format : "table";
+  if (!allowed.includes(format)) {
+    throw new Error(`--format must be one of: ${allowed.join(", ")}`);
+  }
+  return format;
+}
+
+/**
+ * Abbreviate a dollar amount (e.g., 3000000 -> "$3.0M")
+ */
+function formatUsd(amount: number | null | undefined): string {
+  if (amount === null || amount === undefined) {
+    return "";
+  }
+  const units: Array<[number, string]> = [[1e9, "B"], [1e6, "M"], [1e3, "K"]];
+  for (const [size, suffix] of units) {
+    if (Math.abs(amount) >= size) {
+      return `$${(amount / size).toFixed(1)}${suffix}`;
+    }
+  }
+  return `$${Math.round(amount)}`;
+}
+
+const MAX_CELL_WIDTH = 40;
+
+/**
+ * Render rows as a plain-text table with a header rule; numbers are right-aligned
+ */
+export function renderTable(headers: string[], rows: Array<Array<string | number | null | undefined>>): string {
+  const cells = rows.map((row) =>
+    row.map((value) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+    })
+  );
+  const widths = headers.map((header, column) => Math.max(header.length, ...cells.map((row) => row[column].length)));
+  const numeric = headers.map((_, column) => rows.length > 0 && rows.every((row) => typeof row[column] === "number" || row[column] == null));
+  const line = (row: string[]) =>
+    row
+      .map((cell, column) => (numeric[column] ? cell.padStart(widths[column]) : cell.padEnd(widths[column])))
+      .join("  ")
+      .trimEnd();
+
+  return [line(headers), line(widths.map((width) => "-".repeat(width))), ...cells.map(line)].join("\n") + "\n";
+}
+
+function describeWindow(result: { days: number | null; window: { from: string | null; to: string | null; dateField: string } }): string {
+  const { from, to, dateField } = result.window;
+  return `${from ?? "start"} to ${to ?? "today"} by ${dateField} date`;
+}
+
+function describeCoverage(coverage: { complete: boolean; stopReason: string }): string {
+  return coverage.complete ? "complete" : `incomplete (${coverage.stopReason})`;
+}
+
+function tradesTable(trades: TradeWithPrice[]): string {
+  return renderTable(
+    ["#", "Traded", "Disclosed", "Politician", "Party", "Ticker", "Issuer", "Type", "Owner", "Size", "Price"],
+    trades.map((trade) => [
+      trade.index,
+      trade.dates.tradeDate ?? trade.dates.trade,
+      trade.dates.disclosureDate ?? trade.dates.disclosure,
+      trade.politician.name,
+      trade.politician.party,
+      trade.issuer.ticker,
+      trade.issuer.name,
+      trade.transaction.type,
+      trade.transaction.owner,
+      trade.transaction.size,
+      trade.transaction.price,
+    ])
+  );
+}
+
+async function runTrades(values: OptionValues, output: CliOutput): Promise<void> {
+  const args = toToolArgs(values);
+  const { symbol, politician, party, type } = getTradeQueryArgs(args);
+  const limit = getLimitOption(values, 50, 1000);
+  const format = getFormatOption(values, ["table", "json", "csv", "ndjson"]);
+
+  const result = await getPoliticianTrades(symbol, politician, party, type, getDateRangeArgs(args), limit, getMaxPagesArg(args), getTradeFilterArgs(args), getTradePageArgs(args));
+
+  if (typeof values.output === "string") {
+    const exported = await exportTrades(result.trades, values.output, values.format === undefined ? undefined : format);
+    output.stdout(`Wrote ${exported.rowCount} trades to ${exported.path} (${exported.format})\n`);
+  } else if (format === "json") {
+    output.stdout(`${JSON.stringify(result, null, 2)}\n`);
+  } else if (format === "csv" || format === "ndjson") {
+    output.stdout(formatTrades(result.trades, format));
+  } else {
+    output.stdout(tradesTable(result.trades));
+    output.stdout(`\n${result.totalTrades} trades, ${describeWindow(result.filters)}, coverage ${describeCoverage(result.coverage)}\n`);
+  }
+
+  // Keep machine-readable output clean: the paging hint goes to stderr
+  if (result.nextCursor && format !== "json") {
+    output.stderr(`More trades available: add --cursor ${result.nextCursor}\n`);
+  }
+}
+
+async function runStats(values: OptionValues, output: CliOutput): Promise<void> {
+  const args = toToolArgs(values);
+  const format = getFormatOption(values, ["table", "json"]);
+  const politician = typeof values.politician === "string" ? values.politician : null;
+  const symbol = typeof values.symbol === "string" ? values.symbol : null;
+  if (!politician === !symbol) {
+    throw new Error("stats needs exactly one of --politician or --symbol");
+  }
+
+  const window = getDateRangeArgs(args);
+  const maxPages = getMaxPagesArg(args);
+  const includeProfile = values["include-profile"] === true;
+  const result = politician
+    ? await getPoliticianStats(politician, window, maxPages, includeProfile)
+    : await getAssetStats(symbol!, window, maxPages, includeProfile);
+
+  if (format === "json") {
+    output.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+
+  const summary = renderTable(
+    ["Metric", "Value"],
+    [
+      ["Subject", politician ?? symbol],
+      ["Window", describeWindow(result)],
+      ["Trades", result.totalTrades],
+      ["Buys / sells", `${result.buys} / ${result.sells}`],
+      ["Receives / exchanges", `${result.receives} / ${result.exchanges}`],
+      ["Buy/sell ratio", result.buySellRatio],
+      ["Est. volume", formatUsd(result.estimatedVolume)],
+      ["Est. buy / sell volume", `${formatUsd(result.estimatedBuyVolume)} / ${formatUsd(result.estimatedSellVolume)}`],
+      ["Coverage", describeCoverage(result.coverage)],
+    ]
+  );
+  output.stdout(summary);
+
+  if ("mostTradedAssets" in result) {
+    output.stdout(`\nMost traded assets\n`);
+    output.stdout(renderTable(
+      ["Ticker", "Issuer", "Trades", "Est. Volume"],
+      result.mostTradedAssets.map((asset) => [asset.ticker, asset.issuer, asset.transactionCount, formatUsd(asset.estimatedVolume)])
+    ));
+  } else {
+    output.stdout(`\nMost active traders\n`);
+    output.stdout(renderTable(
+      ["Politician", "Party", "Chamber", "Trades", "Est. Volume"],
+      result.mostActiveTraders.map((trader) => [trader.politician, trader.party, trader.chamber, trader.transactionCount, formatUsd(trader.estimatedVolume)])
+    ));
+  }
+}
+
+async function runMomentum(values: OptionValues, output: CliOutput): Promise<void> {
+  const args = toToolArgs(values);
+  const format = getFormatOption(values, ["table", "json"]);
+  const result = await getBuyMomentumAssets(getLimitOption(values, 10, 50), getDateRangeArgs(args), getMaxPagesArg(args));
+
+  if (format === "json") {
+    output.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+  output.stdout(renderTable(
+    ["Rank", "Ticker", "Issuer", "Buys", "Sells", "Net", "Ratio", "Est. Buy Vol", "Est. Sell Vol"],
+    result.assets.map((asset) => [
+      asset.rank,
+      asset.ticker,
+      asset.issuer,
+      asset.buys,
+      asset.sells,
+      asset.netBuys,
+      asset.buySellRatio,
+      formatUsd(asset.estimatedBuyVolume),
+      formatUsd(asset.estimatedSellVolume),
+    ])
+  ));
+  output.stdout(`\n${result.totalAssets} assets, ${describeWindow(result)}, coverage ${describeCoverage(result.coverage)}\n`);
+}
+
+async function runPartyMomentum(values: OptionValues, output: CliOutput): Promise<void> {
+  const args = toToolArgs(values);
+  const format = getFormatOption(values, ["table", "json"]);
+  const result = await getPartyBuyMomentum(getLimitOption(values, 5, 20), getDateRangeArgs(args), getMaxPagesArg(args));
+
+  if (format === "json") {
+    output.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+  const sections: Array<[string, ReturnType<typeof rankPartyBuyMomentum>["consensus"]]> = [
+    ["Consensus (both parties net buying)", result.consensus],
+    ["Democrat favorites", result.democratFavorites],
+    ["Republican favorites", result.republicanFavorites],
+  ];
+  sections.forEach(([title, assets], position) => {
+    output.stdout(`${position > 0 ? "\n" : ""}${title}\n`);
+    output.stdout(renderTable(
+      ["Rank", "Ticker", "Issuer", "D Buys", "D Sells", "R Buys", "R Sells", "Score"],
+      assets.map((asset) => [
+        asset.rank,
+        asset.ticker,
+        asset.issuer,
+        asset.democrats.buys,
+        asset.democrats.sells,
+        asset.republicans.buys,
+        asset.republicans.sells,
+        asset.score,
+      ])
+    ));
+  });
+  output.stdout(`\n${describeWindow(result)}, coverage ${describeCoverage(result.coverage)}\n`);
+}
+
+/**
+ * Run a CLI command
+ * @param argv - Arguments after the program name, starting with the command
+ * @param serve - Starts the MCP server with the remaining arguments (used by `serve`)
+ * @param output - Where to print (default: standard output and error)
+ * @returns Process exit code: 0 on success, 1 if the command failed, 2 for an unknown command
+ */
+export async function runCli(argv: string[], serve: (argv: string[]) => Promise<void>, output: CliOutput = defaultOutput): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (!CLI_COMMANDS.includes(command)) {
+    output.stderr(`Unknown command: ${command}\n\n${USAGE}`);
+    return 2;
+  }
+  if (command === "help" || rest.includes("--help") || rest.includes("-h")) {
+    output.stdout(USAGE);
+    return 0;
+  }
+
+  try {
+    switch (command) {
+      case "serve":
+        await serve(rest);
+        break;
+      case "trades":
+        await runTrades(parseArgs({ args: rest, options: TRADES_OPTIONS }).values, output);
+        break;
+      case "stats":
+        await runStats(parseArgs({ args: rest, options: STATS_OPTIONS }).values, output);
+        break;
+      case "momentum":
+        await runMomentum(parseArgs({ args: rest, options: MOMENTUM_OPTIONS }).values, output);
+        break;
+      case "party-momentum":
+        await runPartyMomentum(parseArgs({ args: rest, options: MOMENTUM_OPTIONS }).values, output);
+        break;
+    }
+    return 0;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    output.stderr(`Error: ${errorMessage}\n`);
+    return 1;
+  }
+}
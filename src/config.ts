@@ -0,0 +1,79 @@
+/**
+ * Runtime configuration shared by the scrapers
+ */
+
+const DEFAULT_BASE_URL = "https://www.capitoltrades.com";
+
+/**
+ * Base URL of the Capitol Trades site
+ * Override with CAPITOL_TRADES_BASE_URL (e.g., to point tests at a local stand-in server)
+ */
+export function getBaseUrl(): string {
+  return (process.env.CAPITOL_TRADES_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Settings for the shared HTTP client
+ */
+export interface HttpConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  requestsPerSecond: number;
+  burst: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * HTTP client settings, each overridable through the environment:
+ * - CAPITOL_TRADES_TIMEOUT_MS: per-request timeout (default: 60000)
+ * - CAPITOL_TRADES_MAX_RETRIES: retries after the first attempt (default: 3)
+ * - CAPITOL_TRADES_RETRY_BASE_MS / CAPITOL_TRADES_RETRY_MAX_MS: backoff bounds (default: 500 / 30000)
+ * - CAPITOL_TRADES_RATE_LIMIT: sustained requests per second (default: 2)
+ * - CAPITOL_TRADES_RATE_BURST: requests allowed back to back (default: 4)
+ */
+export function getHttpConfig(): HttpConfig {
+  return {
+    timeoutMs: readNumber("CAPITOL_TRADES_TIMEOUT_MS", 60000),
+    maxRetries: readNumber("CAPITOL_TRADES_MAX_RETRIES", 3),
+    retryBaseMs: readNumber("CAPITOL_TRADES_RETRY_BASE_MS", 500),
+    retryMaxMs: readNumber("CAPITOL_TRADES_RETRY_MAX_MS", 30000),
+    requestsPerSecond: readNumber("CAPITOL_TRADES_RATE_LIMIT", 2),
+    burst: Math.max(1, readNumber("CAPITOL_TRADES_RATE_BURST", 4)),
+  };
+}
+
+/**
+ * Settings for serving MCP over HTTP (--http)
+ */
+export interface ServeConfig {
+  authToken: string | null;
+  corsOrigins: string[];
+}
+
+/**
+ * HTTP serving settings, read from the environment:
+ * - CAPITOL_TRADES_HTTP_TOKEN: bearer token clients must send (default: none, no auth)
+ * - CAPITOL_TRADES_CORS_ORIGINS: comma-separated origins allowed from browsers, or "*" (default: none)
+ */
+export function getServeConfig(): ServeConfig {
+  return {
+    authToken: process.env.CAPITOL_TRADES_HTTP_TOKEN || null,
+    corsOrigins: (process.env.CAPITOL_TRADES_CORS_ORIGINS || "")
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Date helpers for Capitol Trades display dates
+ */
+
+import { IsoDate, TradeWithPrice } from "./types.js";
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Format a Date as an ISO calendar date (YYYY-MM-DD, UTC)
+ */
+export function toIsoDate(date: Date): IsoDate {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a date as displayed on Capitol Trades into an ISO calendar date
+ * @param text - Display text (e.g., "23 Oct2025", "23 Oct 2025", "Today")
+ * @param now - Reference date for relative values like "Today"
+ * @returns ISO date (e.g., "2025-10-23") or null if the text is not a date
+ */
+export function parseDisplayDate(text: string, now: Date = new Date()): IsoDate | null {
+  const cleaned = text.replace(/\s+/g, " ").trim().toLowerCase();
+  if (!cleaned) {
+    return null;
+  }
+
+  if (cleaned.includes("today")) {
+    return toIsoDate(now);
+  }
+  if (cleaned.includes("yesterday")) {
+    return toIsoDate(new Date(now.getTime() - DAY_MS));
+  }
+
+  const match = cleaned.match(/(\d{1,2})\s*([a-z]{3})[a-z]*\.?\s*(\d{4})/);
+  if (!match) {
+    return null;
+  }
+
+  const day = parseInt(match[1], 10);
+  const month = MONTHS[match[2]];
+  const year = parseInt(match[3], 10);
+  if (month === undefined || day < 1 || day > 31) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month, day));
+  // Reject overflowed dates such as "31 Feb"
+  if (date.getUTCDate() !== day) {
+    return null;
+  }
+  return toIsoDate(date);
+}
+
+/**
+ * Get the ISO date N days before a reference date
+ */
+export function daysAgo(days: number, now: Date = new Date()): IsoDate {
+  return toIsoDate(new Date(now.getTime() - days * DAY_MS));
+}
+
+/**
+ * Convert an ISO calendar date into a Date at UTC midnight
+ */
+export function toDate(date: IsoDate): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Whole days from one ISO date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: IsoDate, to: IsoDate): number {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Which date a range applies to: when the trade happened or when it was disclosed
+ */
+export type DateField = "trade" | "disclosure";
+
+/**
+ * A resolved calendar window (bounds are inclusive; null means open-ended)
+ */
+export interface DateRange {
+  from: IsoDate | null;
+  to: IsoDate | null;
+  field: DateField;
+  days?: number;
+}
+
+/**
+ * Caller-supplied window: a relative number of days, explicit bounds, or a period expression
+ */
+export interface DateRangeOptions {
+  days?: number;
+  from?: string;
+  to?: string;
+  period?: string;
+  dateField?: DateField;
+}
+
+function isoFromParts(year: number, month: number, day: number): IsoDate {
+  return toIsoDate(new Date(Date.UTC(year, month, day)));
+}
+
+/**
+ * Parse a calendar expression into the first or last day it covers
+ * Accepts "2024-03-15", "2024-03", "2024", "Q2 2024", "2024 Q2", "H1 2024", "Mar 2024",
+ * "15 Mar 2024" and "today"
+ * @param text - The expression to parse
+ * @param edge - Whether to return the start or the end of the period
+ */
+export function parseDateBound(text: string, edge: "start" | "end", now: Date = new Date()): IsoDate {
+  const cleaned = text.replace(/\s+/g, " ").trim().toLowerCase();
+  const start = edge === "start";
+  let match: RegExpMatchArray | null;
+
+  if (cleaned === "today" || cleaned === "now") {
+    return toIsoDate(now);
+  }
+
+  if ((match = cleaned.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)];
+    const iso = isoFromParts(year, month, day);
+    if (iso !== cleaned) {
+      throw new Error(`Invalid date "${text}"`);
+    }
+    return iso;
+  }
+
+  if ((match = cleaned.match(/^(\d{4})-(\d{2})$/))) {
+    const [year, month] = [parseInt(match[1], 10), parseInt(match[2], 10) - 1];
+    if (month < 0 || month > 11) {
+      throw new Error(`Invalid month "${text}"`);
+    }
+    return start ? isoFromParts(year, month, 1) : isoFromParts(year, month + 1, 0);
+  }
+
+  if ((match = cleaned.match(/^(\d{4})$/))) {
+    const year = parseInt(match[1], 10);
+    return start ? isoFromParts(year, 0, 1) : isoFromParts(year, 11, 31);
+  }
+
+  if ((match = cleaned.match(/^q([1-4]) ?(\d{4})$/) || cleaned.match(/^(\d{4}) ?q([1-4])$/))) {
+    const quarterFirst = match[1].length === 1;
+    const quarter = parseInt(quarterFirst ? match[1] : match[2], 10);
+    const year = parseInt(quarterFirst ? match[2] : match[1], 10);
+    const firstMonth = (quarter - 1) * 3;
+    return start ? isoFromParts(year, firstMonth, 1) : isoFromParts(year, firstMonth + 3, 0);
+  }
+
+  if ((match = cleaned.match(/^h([12]) ?(\d{4})$/))) {
+    const half = parseInt(match[1], 10);
+    const year = parseInt(match[2], 10);
+    const firstMonth = (half - 1) * 6;
+    return start ? isoFromParts(year, firstMonth, 1) : isoFromParts(year, firstMonth + 6, 0);
+  }
+
+  if ((match = cleaned.match(/^([a-z]{3})[a-z]*\.? (\d{4})$/)) && MONTHS[match[1]] !== undefined) {
+    const month = MONTHS[match[1]];
+    const year = parseInt(match[2], 10);
+    return start ? isoFromParts(year, month, 1) : isoFromParts(year, month + 1, 0);
+  }
+
+  const displayDate = parseDisplayDate(cleaned, now);
+  if (displayDate) {
+    return displayDate;
+  }
+
+  throw new Error(`Invalid date "${text}". Use YYYY-MM-DD, YYYY-MM, YYYY, "Q2 2024", "H1 2024" or "Mar 2024"`);
+}
+
+/**
+ * Parse a period expression into bounds
+ * Accepts "Q2 2024", "since 2023-01-01", "until 2024-06-30", "2024-01-01 to 2024-03-31"
+ * and "last 45 days"
+ */
+export function parsePeriod(text: string, now: Date = new Date()): { from: IsoDate | null; to: IsoDate | null } {
+  const cleaned = text.replace(/\s+/g, " ").trim().toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if ((match = cleaned.match(/^(?:last|past) (\d+) days?$/))) {
+    return { from: daysAgo(parseInt(match[1], 10), now), to: null };
+  }
+  if ((match = cleaned.match(/^(?:since|from|after) (.+)$/))) {
+    return { from: parseDateBound(match[1], "start", now), to: null };
+  }
+  if ((match = cleaned.match(/^(?:until|through|before|to) (.+)$/))) {
+    return { from: null, to: parseDateBound(match[1], "end", now) };
+  }
+  if ((match = cleaned.match(/^(.+?) (?:to|through|until) (.+)$/) || cleaned.match(/^(.+?) ?\.\. ?(.+)$/))) {
+    return { from: parseDateBound(match[1], "start", now), to: parseDateBound(match[2], "end", now) };
+  }
+  return { from: parseDateBound(cleaned, "start", now), to: parseDateBound(cleaned, "end", now) };
+}
+
+/**
+ * Resolve caller options into a concrete date range
+ * A bare number is treated as a relative window of that many days on the trade date
+ */
+export function resolveDateRange(options: DateRangeOptions | number, now: Date = new Date()): DateRange {
+  const opts: DateRangeOptions = typeof options === "number" ? { days: options } : options;
+  const field = opts.dateField || "trade";
+
+  let from: IsoDate | null = null;
+  let to: IsoDate | null = null;
+
+  if (opts.period) {
+    ({ from, to } = parsePeriod(opts.period, now));
+  }
+  if (opts.from) {
+    from = parseDateBound(opts.from, "start", now);
+  }
+  if (opts.to) {
+    to = parseDateBound(opts.to, "end", now);
+  }
+
+  // A relative window only applies when no explicit bounds were given
+  if (!from && !to) {
+    const days = opts.days ?? 90;
+    return { from: daysAgo(days, now), to: null, field, days };
+  }
+
+  if (from && to && from > to) {
+    throw new Error(`Date range start ${from} is after its end ${to}`);
+  }
+  return { from, to, field };
+}
+
+/**
+ * Check whether an ISO date falls within a range (unknown dates never match a bounded range)
+ */
+export function isInRange(date: IsoDate | null, range: DateRange): boolean {
+  if (!range.from && !range.to) {
+    return true;
+  }
+  if (!date) {
+    return false;
+  }
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+/**
+ * Get the ISO date of a trade that a range applies to
+ */
+export function rangeDateOf(trade: TradeWithPrice, field: DateField): IsoDate | null {
+  return field === "disclosure" ? trade.dates.disclosureDate : trade.dates.tradeDate;
+}
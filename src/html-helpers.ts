@@ -0,0 +1,81 @@
+import * as cheerio from "cheerio";
+
+/**
+ * Shared helpers for reading Capitol Trades markup
+ */
+
+/**
+ * Extract the trailing ID from a Capitol Trades link (e.g., "/politicians/P000197" -> "P000197")
+ */
+export function extractPathId(href: string | undefined, segment: string): string | undefined {
+  if (!href) {
+    return undefined;
+  }
+  const match = href.match(new RegExp(`${segment}/([^/?#]+)`));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Read the display text of a date cell, keeping its sub-elements apart
+ * The site renders dates as separate elements (e.g., "23 Oct" and "2025"), which
+ * .text() would otherwise run together as "23 Oct2025"
+ */
+export function dateCellText($: cheerio.CheerioAPI, cell: cheerio.Cheerio<any>): string {
+  const parts = cell
+    .find("*")
+    .filter((_, el) => $(el).children().length === 0)
+    .map((_, el) => $(el).text().trim())
+    .get()
+    .filter((part: string) => part.length > 0);
+  return (parts.length > 0 ? parts.join(" ") : cell.text()).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Collect "label: value" pairs from a page section
+ * The site lays out detail fields as a label element followed by its value
+ * (e.g., <span class="q-label">Owner</span><span class="q-value">Spouse</span>)
+ * @returns Values keyed by lowercased label; the first occurrence of a label wins
+ */
+export function readLabeledFields($: cheerio.CheerioAPI, scope: cheerio.Cheerio<any>): Map<string, string> {
+  const fields = new Map<string, string>();
+
+  scope.find(".q-label, dt, th").each((_, element) => {
+    const $label = $(element);
+    const label = $label.text().replace(/\s+/g, " ").trim().toLowerCase();
+    if (!label || fields.has(label)) {
+      return;
+    }
+    const $value = $label.siblings(".q-value").first().length ? $label.siblings(".q-value").first() : $label.next();
+    const value = $value.length ? dateCellText($, $value) : "";
+    if (value) {
+      fields.set(label, value);
+    }
+  });
+
+  return fields;
+}
+
+/**
+ * Parse a displayed number such as "$135.40", "20,000", "$1.2M" or "$4.46T" (null for "N/A" or blanks)
+ */
+export function parseDisplayNumber(text: string | null | undefined): number | null {
+  const match = text?.replace(/,/g, "").match(/(-?\d+(?:\.\d+)?)\s*([kmbt])?/i);
+  if (!match) {
+    return null;
+  }
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 }[match[2]?.toLowerCase() as "k" | "m" | "b" | "t"] ?? 1;
+  // Round away float noise from scaling (e.g., 187.51 * 1M)
+  return Math.round(parseFloat(match[1]) * multiplier * 100) / 100;
+}
+
+/**
+ * Normalize the owner shown on a trade to self, spouse, child, joint or undisclosed
+ */
+export function normalizeOwner(text: string | undefined): string {
+  const owner = (text || "").toLowerCase();
+  if (owner.includes("spouse")) return "spouse";
+  if (owner.includes("child") || owner.includes("dependent")) return "child";
+  if (owner.includes("joint")) return "joint";
+  if (owner.includes("self")) return "self";
+  return owner.trim() || "undisclosed";
+}
@@ -0,0 +1,150 @@
+import axios, { AxiosError } from "axios";
+import { getHttpConfig, HttpConfig } from "./config.js";
+import { logDebug } from "./logger.js";
+
+/**
+ * Shared HTTP client for every request to Capitol Trades
+ * All scrapers fetch through here so they share one rate limit and the same retry policy
+ */
+
+const DEFAULT_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  Accept:
+    "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+};
+
+// Statuses worth retrying: rate limiting and transient server or gateway failures
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Per-request overrides of the configured client settings
+ */
+export interface FetchOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+// Token bucket shared by all callers in this process
+const bucket = { tokens: 0, updatedAt: 0, rate: 0, capacity: 0 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wait until the rate limiter allows another request
+ * A rate of 0 disables limiting
+ */
+async function acquireToken(config: HttpConfig): Promise<void> {
+  if (config.requestsPerSecond <= 0) {
+    return;
+  }
+
+  // Start a fresh, full bucket whenever the settings change
+  if (bucket.rate !== config.requestsPerSecond || bucket.capacity !== config.burst) {
+    bucket.rate = config.requestsPerSecond;
+    bucket.capacity = config.burst;
+    bucket.tokens = config.burst;
+    bucket.updatedAt = Date.now();
+  }
+
+  for (;;) {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.rate);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil(((1 - bucket.tokens) / bucket.rate) * 1000));
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped
+ */
+function backoffDelay(attempt: number, config: HttpConfig): number {
+  const ceiling = Math.min(config.retryMaxMs, config.retryBaseMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  // No response means a network failure or timeout
+  if (!error.response) {
+    return true;
+  }
+  return RETRYABLE_STATUSES.has(error.response.status);
+}
+
+/**
+ * How long to wait before retrying a failed request
+ * 429 and 503 responses may name a delay in Retry-After; otherwise back off exponentially
+ */
+function retryDelay(error: AxiosError, attempt: number, config: HttpConfig): number {
+  const status = error.response?.status;
+  if (status === 429 || status === 503) {
+    const header = error.response?.headers?.["retry-after"];
+    const retryAfter = parseRetryAfter(typeof header === "string" ? header : undefined);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, config.retryMaxMs);
+    }
+  }
+  return backoffDelay(attempt, config);
+}
+
+/**
+ * Fetch a page as HTML text, rate limited and retried on transient failures
+ * Non-retryable errors (e.g., 404) and the last failed attempt are rethrown as axios errors
+ * @param url - The URL to fetch
+ * @param options - Optional timeout and retry overrides
+ * @returns The response body
+ */
+export async function fetchHtml(url: string, options: FetchOptions = {}): Promise<string> {
+  const config = getHttpConfig();
+  const timeout = options.timeoutMs ?? config.timeoutMs;
+  const maxRetries = options.maxRetries ?? config.maxRetries;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(config);
+    try {
+      const response = await axios.get<string>(url, {
+        headers: DEFAULT_HEADERS,
+        timeout,
+        maxRedirects: 5,
+        responseType: "text",
+        validateStatus: (status) => status >= 200 && status < 300,
+      });
+      return response.data;
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = retryDelay(error as AxiosError, attempt, config);
+      const reason = (error as AxiosError).response?.status ?? (error as AxiosError).code ?? "network error";
+      logDebug(`Request to ${url} failed (${reason}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { logDebug } from "./logger.js";
+
+/**
+ * Serves MCP over HTTP with the SSE transport, so one long-running instance can be shared:
+ * clients open GET /sse and post their messages to the /messages endpoint it announces.
+ * Every session gets its own MCP server; they share the scraper's caches and trade store.
+ */
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  // Bearer token clients must send; null or empty disables authentication
+  authToken?: string | null;
+  // Origins allowed to call from a browser; "*" allows any, empty disables CORS headers
+  corsOrigins?: string[];
+}
+
+/**
+ * Compare the request's bearer token in constant time (hashing first evens out the lengths)
+ */
+function isAuthorized(req: IncomingMessage, authToken: string | null | undefined): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const match = (req.headers.authorization || "").match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(authToken));
+}
+
+/**
+ * Add CORS headers when the request's origin is allowed
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, corsOrigins: string[]): void {
+  const origin = req.headers.origin;
+  if (corsOrigins.includes("*")) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+  } else if (origin && corsOrigins.includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+  } else {
+    return;
+  }
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+/**
+ * Start serving MCP over HTTP/SSE
+ * @param createServer - Builds a fresh MCP server for each client session
+ * @param options - Port, host, optional bearer token and allowed CORS origins
+ * @returns The listening HTTP server (port 0 picks a free port; read it from address())
+ */
+export async function startHttpServer(createServer: () => Server, options: HttpServerOptions): Promise<HttpServer> {
+  const { port, host = "127.0.0.1", authToken = null, corsOrigins = [] } = options;
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+      applyCors(req, res, corsOrigins);
+
+      // Preflight requests carry no credentials, so answer them before the auth check
+      if (req.method === "OPTIONS") {
+        res.writeHead(204, { "Access-Control-Max-Age": "86400" }).end();
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === "/health") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (!isAuthorized(req, authToken)) {
+        sendJson(res, 401, { error: "Missing or invalid bearer token" }, { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+        sessions.set(transport.sessionId, transport);
+        server.onclose = () => {
+          sessions.delete(transport.sessionId);
+          logDebug(`Session ${transport.sessionId} closed`);
+        };
+        await server.connect(transport);
+        logDebug(`Session ${transport.sessionId} opened`);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const transport = sessions.get(url.searchParams.get("sessionId") || "");
+        if (!transport) {
+          sendJson(res, 404, { error: "Unknown or expired session; reconnect to /sse" });
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logDebug(`HTTP request failed: ${errorMessage}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: errorMessage });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
@@ -2,27 +2,193 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { realpathSync } from "fs";
+import { fileURLToPath } from "url";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 export * from "./types.js";
 
 // Import the trade parsing functions
-import { scrapePoliticianTrades, getIssuerId, getPoliticianId, getTopTradedAssets, getPoliticianStats, getAssetStats, getBuyMomentumAssets, getPartyBuyMomentum } from "./politician-trades-scraper.js";
+import { searchIssuers, searchPoliticians, getPoliticianTrades, getTopTradedAssets, getPoliticianProfile, getPoliticianStats, getIssuerProfile, getAssetStats, getBuyMomentumAssets, getPartyBuyMomentum } from "./politician-trades-scraper.js";
+import { getTradeDetail } from "./trade-detail-scraper.js";
+import { RESOURCES, RESOURCE_TEMPLATES, readResource } from "./resources.js";
+import { PROMPTS, getPrompt } from "./prompts.js";
+import { exportTrades, getExportDir, resolveExportFormat, resolveExportPath } from "./trade-export.js";
+import { getTradePerformance } from "./trade-performance.js";
+import { BacktestOptions, runBacktest } from "./backtest.js";
+import { getLateDisclosures } from "./late-disclosures.js";
+import { findTradeClusters } from "./trade-clusters.js";
+import { addToWatchlist, checkWatchlist, listWatchlists, removeFromWatchlist } from "./watchlist.js";
+import { loadNotificationConfig, startNotificationPolling } from "./notifier.js";
+import { startHttpServer } from "./http-server.js";
+import { runCli } from "./cli.js";
+import { getServeConfig } from "./config.js";
+import { getDateRangeArgs, getMaxPagesArg, getStringListArg, getTradeFilterArgs, getTradePageArgs, getTradeQueryArgs, getWatchlistNameArg } from "./tool-args.js";
 
 /**
  * MCP Capitol Trades Server
  * Provides tools for extracting politician stock trades with prices from Capitol Trades
  */
 
+// Date window arguments shared by every tool
+const DATE_RANGE_PROPERTIES = {
+  days: {
+    type: "number",
+    description: "Number of days to look back for trades (default: 90). Ignored when from, to or period is provided.",
+    default: 90,
+  },
+  from: {
+    type: "string",
+    description: "Optional: Start of the window, inclusive (e.g., '2024-01-01', '2024-03', '2024', 'Q2 2024').",
+  },
+  to: {
+    type: "string",
+    description: "Optional: End of the window, inclusive (e.g., '2024-06-30', 'Q2 2024'). Defaults to today.",
+  },
+  period: {
+    type: "string",
+    description: "Optional: Calendar window expression (e.g., 'Q2 2024', 'H1 2023', '2024', 'since 2023-01-01', '2024-01-01 to 2024-03-31').",
+  },
+  dateField: {
+    type: "string",
+    enum: ["trade", "disclosure"],
+    description: "Apply the window to the trade date ('trade', default) or the disclosure date ('disclosure').",
+    default: "trade",
+  },
+};
+
+// Page budget argument shared by every tool
+const PAGING_PROPERTIES = {
+  maxPages: {
+    type: "number",
+    description: "Optional: Maximum number of result pages to fetch. By default tools page to the end of the results; the response's coverage reports whether the result is complete.",
+  },
+};
+
+// Trade listing filters and sort order shared by get_politician_trades and export_trades
+const TRADE_QUERY_PROPERTIES = {
+  symbol: {
+    type: "string",
+    description: "Optional: The ticker symbol, company/asset name or issuer ID (e.g., 'Apple', 'AAPL', 'VOO'). If provided, filters trades for that asset. An exact ticker wins over name matches; ambiguous names return an error listing the candidates.",
+  },
+  politician: {
+    type: "string",
+    description: "Optional: The politician name or ID (e.g., 'Nancy Pelosi', 'P000197'). If provided, filters trades for that politician. Ambiguous names return an error listing the candidates.",
+  },
+  party: {
+    type: "string",
+    enum: ["DEMOCRAT", "REPUBLICAN"],
+    description: "Filter by party affiliation. Options: 'DEMOCRAT' or 'REPUBLICAN'. If null or not provided, treats as ALL (no filter).",
+  },
+  type: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: ["BUY", "SELL", "RECEIVE", "EXCHANGE"],
+    },
+    description: "Filter by transaction type(s). Can specify any combination of 'BUY', 'SELL', 'RECEIVE', 'EXCHANGE'. If all 4 are specified or empty array, treats as ALL (no filter).",
+    default: [],
+  },
+  chamber: {
+    type: "string",
+    enum: ["HOUSE", "SENATE"],
+    description: "Filter by chamber. Options: 'HOUSE' or 'SENATE'. If not provided, includes both.",
+  },
+  state: {
+    type: "string",
+    description: "Filter by the politician's state as a two-letter code (e.g., 'TX', 'CA').",
+  },
+  owner: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: ["SELF", "SPOUSE", "CHILD", "JOINT"],
+    },
+    description: "Filter by who owned the asset. Can specify any combination of 'SELF', 'SPOUSE', 'CHILD', 'JOINT'.",
+  },
+  minSize: {
+    type: "number",
+    description: "Only trades whose size bracket starts at or above this many dollars (e.g., 250000 for trades over $250K).",
+  },
+  maxSize: {
+    type: "number",
+    description: "Only trades whose size bracket ends at or below this many dollars.",
+  },
+  assetType: {
+    type: "array",
+    items: { type: "string" },
+    description: "Filter by asset type(s), applied by Capitol Trades (e.g., 'stock', 'etf', 'mutual-fund', 'stock-option', 'corporate-bond', 'crypto').",
+  },
+  sector: {
+    type: "array",
+    items: { type: "string" },
+    description: "Filter by issuer sector(s), applied by Capitol Trades (e.g., 'information-technology', 'health-care', 'financials', 'energy').",
+  },
+  sortBy: {
+    type: "string",
+    enum: ["tradeDate", "disclosureDate", "size", "reportingGap"],
+    description: "Sort trades by trade date, disclosure date, estimated size or reporting gap (default: the dateField's date, newest first). Any other order reads the whole window before sorting, on every page of results, up to maxPages (default: 20 pages); narrow the window to keep it fast and complete.",
+  },
+  sortDirection: {
+    type: "string",
+    enum: ["asc", "desc"],
+    description: "Sort direction (default: 'desc').",
+    default: "desc",
+  },
+};
+
+// Watchlist name argument shared by the watchlist tools
+const WATCHLIST_NAME_PROPERTY = {
+  type: "string",
+  description: "Watchlist name (default: 'default')",
+  default: "default",
+};
+
 // Define available tools
-const TOOLS: Tool[] = [
+export const TOOLS: Tool[] = [
+  {
+    name: "search_issuers",
+    description:
+      "Search for issuers (stocks, ETFs, funds, bonds) by company name or ticker and list every match with its Capitol Trades issuer ID, name, ticker, sector and country. Use it to tell share classes and similarly named companies apart, then pass the ticker or ID to the other tools.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Company name or ticker (e.g., 'Alphabet', 'GOOGL')",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "search_politicians",
+    description:
+      "Search for politicians by name and list every match with their Capitol Trades ID, party, chamber and state. Use it to pick the right member when a name is ambiguous, then pass the ID to the other tools.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Full or partial politician name (e.g., 'Michael', 'Pelosi')",
+        },
+      },
+      required: ["name"],
+    },
+  },
   {
     name: "get_top_traded_assets",
     description:
-      "Get the most traded assets (stocks, ETFs, mutual funds, bonds) by politicians over a time period, ranked by number of trades.",
+      "Get the most traded assets (stocks, ETFs, mutual funds, bonds) by politicians over a time period, ranked by number of trades. Includes estimated dollar volume per asset.",
     inputSchema: {
       type: "object",
       properties: {
@@ -31,12 +197,8 @@ const TOOLS: Tool[] = [
           description: "Number of top assets to return (default: 10, max: 50)",
           default: 10,
         },
-        days: {
-          type: "number",
-          enum: [30, 90, 180, 365],
-          description: "Number of days to look back for trades. Must be one of: 30, 90, 180, or 365 days",
-          default: 90,
-        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
       },
       required: [],
     },
@@ -44,41 +206,73 @@ const TOOLS: Tool[] = [
   {
     name: "get_politician_stats",
     description:
-      "Get comprehensive statistics for a specific politician including total trades, buy/sell ratio, top holdings, and trading activity breakdown.",
+      "Get comprehensive statistics for a specific politician including total trades, buy/sell ratio, estimated dollar volume, dollar-weighted buy/sell ratio, top holdings, and trading activity breakdown.",
     inputSchema: {
       type: "object",
       properties: {
         politician: {
           type: "string",
-          description: "The politician name to search for (e.g., 'Nancy Pelosi', 'Michael').",
+          description: "The politician name or ID (e.g., 'Nancy Pelosi', 'P000197'). Ambiguous names return an error listing the candidates.",
         },
-        days: {
-          type: "number",
-          enum: [30, 90, 180, 365],
-          description: "Number of days to look back for trades. Must be one of: 30, 90, 180, or 365 days",
-          default: 90,
+        includeProfile: {
+          type: "boolean",
+          description: "Also return the politician's profile (district, years in office, date of birth, site-reported totals) as `profile` (default: false)",
+          default: false,
+        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
+      },
+      required: ["politician"],
+    },
+  },
+  {
+    name: "get_politician_profile",
+    description:
+      "Get a politician's profile from their Capitol Trades page: party, chamber, state, district, years in office, date of birth, and the site's reported total trades, trade volume, number of issuers traded and last-traded date.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        politician: {
+          type: "string",
+          description: "The politician name or ID (e.g., 'Nancy Pelosi', 'P000197'). Ambiguous names return an error listing the candidates.",
         },
       },
       required: ["politician"],
     },
   },
+  {
+    name: "get_issuer_profile",
+    description:
+      "Get an issuer's profile from its Capitol Trades page: ticker, sector, industry, country, market cap and share price where shown, plus aggregate politician activity (total trades, number of politicians trading, trade volume, last-traded date).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: {
+          type: "string",
+          description: "The ticker symbol, company/asset name or issuer ID (e.g., 'NVDA', 'NVIDIA', '435544'). An exact ticker wins over name matches; ambiguous names return an error listing the candidates.",
+        },
+      },
+      required: ["symbol"],
+    },
+  },
   {
     name: "get_asset_stats",
     description:
-      "Get comprehensive statistics for a specific asset (stock, ETF, mutual fund, bond) including total trades, buy/sell ratio, most active traders, and trading activity breakdown.",
+      "Get comprehensive statistics for a specific asset (stock, ETF, mutual fund, bond) including total trades, buy/sell ratio, estimated dollar volume, dollar-weighted buy/sell ratio, most active traders, and trading activity breakdown.",
     inputSchema: {
       type: "object",
       properties: {
         symbol: {
           type: "string",
-          description: "The ticker symbol or company/asset name (e.g., 'Apple', 'AAPL', 'VOO', 'Microsoft').",
+          description: "The ticker symbol, company/asset name or issuer ID (e.g., 'Apple', 'AAPL', 'VOO', 'Microsoft'). An exact ticker wins over name matches; ambiguous names return an error listing the candidates.",
         },
-        days: {
-          type: "number",
-          enum: [30, 90, 180, 365],
-          description: "Number of days to look back for trades. Must be one of: 30, 90, 180, or 365 days",
-          default: 90,
+        includeProfile: {
+          type: "boolean",
+          description: "Also return the issuer's profile (sector, industry, country, market cap, site-reported politician activity) as `profile` (default: false)",
+          default: false,
         },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
       },
       required: ["symbol"],
     },
@@ -86,7 +280,7 @@ const TOOLS: Tool[] = [
   {
     name: "get_buy_momentum_assets",
     description:
-      "Get assets (stocks, ETFs, mutual funds, bonds) with high buy momentum from politician trading activity. Shows assets where politicians are net buyers (more buys than sells) with scoring based on volume and conviction.",
+      "Get assets (stocks, ETFs, mutual funds, bonds) with high buy momentum from politician trading activity. Shows assets where politicians are net buyers (more buys than sells) with scoring based on volume and conviction, plus estimated dollar buy/sell volume.",
     inputSchema: {
       type: "object",
       properties: {
@@ -95,12 +289,8 @@ const TOOLS: Tool[] = [
           description: "Number of top assets to return (default: 10, max: 50)",
           default: 10,
         },
-        days: {
-          type: "number",
-          enum: [30, 90, 180, 365],
-          description: "Number of days to look back for trades. Must be one of: 30, 90, 180, or 365 days",
-          default: 90,
-        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
       },
       required: [],
     },
@@ -108,7 +298,7 @@ const TOOLS: Tool[] = [
   {
     name: "get_party_buy_momentum",
     description:
-      "Get buy momentum broken down by political party. Shows consensus assets (stocks, ETFs, mutual funds, bonds) where both parties are buying, Democrat favorites, and Republican favorites with detailed buy/sell breakdowns.",
+      "Get buy momentum broken down by political party. Shows consensus assets (stocks, ETFs, mutual funds, bonds) where both parties are buying, Democrat favorites, and Republican favorites with detailed buy/sell breakdowns and estimated dollar volume per party.",
     inputSchema: {
       type: "object",
       properties: {
@@ -117,79 +307,378 @@ const TOOLS: Tool[] = [
           description: "Number of top assets per category to return (default: 5, max: 20)",
           default: 5,
         },
-        days: {
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "get_politician_trades",
+    description:
+      "Get politician trades with advanced filters. Filter by issuer, politician, party, chamber, state, owner, trade size, asset type, sector, transaction type, and time period.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TRADE_QUERY_PROPERTIES,
+        limit: {
           type: "number",
-          enum: [30, 90, 180, 365],
-          description: "Number of days to look back for trades. Must be one of: 30, 90, 180, or 365 days",
-          default: 90,
+          description: "Maximum number of trades to return per page (default: 50, max: 1000)",
+          default: 50,
         },
+        cursor: {
+          type: "string",
+          description: "Opaque nextCursor from a previous call with the same filters and sort; returns the next page of trades.",
+        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
       },
       required: [],
     },
   },
   {
-    name: "get_politician_trades",
+    name: "get_trade_detail",
     description:
-      "Get politician trades with advanced filters. Filter by issuer, politician, party, transaction type, and time period.",
+      "Get the full record for a single trade from its Capitol Trades page: who owned the asset (self, spouse, child or joint), the link to the original filing, asset type, filer comment, and share price and quantity where disclosed.",
     inputSchema: {
       type: "object",
       properties: {
-        symbol: {
+        trade: {
+          type: "string",
+          description: "Trade ID or the detailUrl of a trade returned by get_politician_trades (e.g., '20003791001')",
+        },
+      },
+      required: ["trade"],
+    },
+  },
+  {
+    name: "export_trades",
+    description:
+      "Write politician trades to a CSV, NDJSON or Parquet file for spreadsheets and notebooks. Accepts the same filters as get_politician_trades. Nested politician, issuer, date and transaction fields are flattened into columns (e.g., politician_name, transaction_midpoint). Returns the file path and row count.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File to write inside the server's export directory (e.g., 'senate/q2.parquet'). Paths outside it are rejected; missing directories are created and an existing file is overwritten.",
+        },
+        format: {
           type: "string",
-          description: "Optional: The ticker symbol or company/asset name (e.g., 'Apple', 'AAPL', 'VOO'). If provided, filters trades for that asset.",
+          enum: ["csv", "ndjson", "parquet"],
+          description: "File format (default: from the path's extension: .csv, .ndjson/.jsonl or .parquet)",
+        },
+        ...TRADE_QUERY_PROPERTIES,
+        limit: {
+          type: "number",
+          description: "Maximum number of trades to write (default: 1000, max: 10000)",
+          default: 1000,
+        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "get_trade_performance",
+    description:
+      "Did these trades beat the market? Computes each trade's return 1, 7, 30 and 90 days after the trade date and after the disclosure date, compared with a benchmark ticker, plus per-politician averages. Accepts the same filters as get_politician_trades. Prices come from local daily price files (one CSV or JSON file per ticker in the price directory); tickers without a file are listed in missingPriceHistory. Averages count sells as the opposite position, so positive means well timed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...TRADE_QUERY_PROPERTIES,
+        benchmark: {
+          type: "string",
+          description: "Ticker to compare against (default: 'SPY'). It needs a price file like any other ticker.",
+          default: "SPY",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of trades to analyze (default: 200, max: 1000)",
+          default: 200,
+        },
+        cursor: {
+          type: "string",
+          description: "Opaque nextCursor from a previous call with the same filters and sort; analyzes the next page of trades.",
+        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "backtest_strategy",
+    description:
+      "Backtest a copy-trading strategy on politicians' trades and local daily price files: mirror one politician's buys, or hold what a party (or everyone) is net buying, rebalanced periodically as the momentum tools rank it. Reports a weekly equity curve, total return, CAGR, maximum drawdown, turnover and the same figures for buying and holding a benchmark. Hypothetical results without costs or slippage.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        strategy: {
+          type: "string",
+          enum: ["mirror_politician", "party_momentum", "buy_momentum"],
+          description: "'mirror_politician': buy what one politician buys, hold for holdDays or until they disclose a sale. 'party_momentum': hold the top assets a party is net buying (as get_party_buy_momentum ranks them). 'buy_momentum': hold the top assets all politicians are net buying (as get_buy_momentum_assets ranks them).",
         },
         politician: {
           type: "string",
-          description: "Optional: The politician name to search for (e.g., 'Michael', 'Nancy Pelosi'). If provided, filters trades for that politician.",
+          description: "mirror_politician: the politician name or ID to copy (e.g., 'Nancy Pelosi', 'P000197')",
         },
         party: {
           type: "string",
-          enum: ["DEMOCRAT", "REPUBLICAN"],
-          description: "Filter by party affiliation. Options: 'DEMOCRAT' or 'REPUBLICAN'. If null or not provided, treats as ALL (no filter).",
+          enum: ["DEMOCRAT", "REPUBLICAN", "CONSENSUS"],
+          description: "party_momentum: which ranking to hold: Democrat favorites, Republican favorites, or assets both parties are buying (default: 'DEMOCRAT')",
+          default: "DEMOCRAT",
         },
-        type: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["BUY", "SELL", "RECEIVE", "EXCHANGE"],
-          },
-          description: "Filter by transaction type(s). Can specify any combination of 'BUY', 'SELL', 'RECEIVE', 'EXCHANGE'. If all 4 are specified or empty array, treats as ALL (no filter).",
-          default: [],
+        entry: {
+          type: "string",
+          enum: ["disclosure", "trade"],
+          description: "Act on the disclosure date ('disclosure', default: what a copier could actually do) or the trade date ('trade': uses information that wasn't public yet)",
+          default: "disclosure",
         },
-        days: {
+        holdDays: {
           type: "number",
-          enum: [30, 90, 180, 365],
-          description: "Number of days to look back for trades. Must be one of: 30, 90, 180, or 365 days",
+          description: "mirror_politician: days to hold each buy (default: 90)",
           default: 90,
         },
+        topN: {
+          type: "number",
+          description: "Momentum strategies: number of assets to hold, in equal weights (default: 5)",
+          default: 5,
+        },
+        lookbackDays: {
+          type: "number",
+          description: "Momentum strategies: days of trades ranked at each rebalance (default: 90)",
+          default: 90,
+        },
+        rebalanceDays: {
+          type: "number",
+          description: "Momentum strategies: days between rebalances (default: 30)",
+          default: 30,
+        },
+        benchmark: {
+          type: "string",
+          description: "Ticker to compare against (default: 'SPY'). Its price file also sets the trading calendar.",
+          default: "SPY",
+        },
+        initialCapital: {
+          type: "number",
+          description: "Starting equity in dollars (default: 10000)",
+          default: 10000,
+        },
+        days: {
+          type: "number",
+          description: "Number of days to simulate, ending today (default: 365). Ignored when from, to or period is provided.",
+          default: 365,
+        },
+        from: DATE_RANGE_PROPERTIES.from,
+        to: DATE_RANGE_PROPERTIES.to,
+        period: DATE_RANGE_PROPERTIES.period,
+        ...PAGING_PROPERTIES,
+      },
+      required: ["strategy"],
+    },
+  },
+  {
+    name: "get_late_disclosures",
+    description:
+      "Find trades disclosed after the STOCK Act's 45-day deadline, and rank politicians by compliance: trades, late count and rate, median and maximum reporting gap, and whether their gaps got shorter or longer from the first to the second half of the window. Filter by politician, party and chamber.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        politician: TRADE_QUERY_PROPERTIES.politician,
+        party: TRADE_QUERY_PROPERTIES.party,
+        chamber: TRADE_QUERY_PROPERTIES.chamber,
+        thresholdDays: {
+          type: "number",
+          description: "Reporting gap in days beyond which a disclosure counts as late (default: 45, the STOCK Act deadline)",
+          default: 45,
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of late trades and of politicians to list (default: 50, max: 500)",
+          default: 50,
+        },
+        ...DATE_RANGE_PROPERTIES,
+        days: {
+          type: "number",
+          description: "Number of days to look back for trades (default: 365). Ignored when from, to or period is provided.",
+          default: 365,
+        },
+        ...PAGING_PROPERTIES,
       },
       required: [],
     },
   },
-];
-
-// Create server instance
-const server = new Server(
   {
-    name: "mcp-capitol-trades-server",
-    version: "1.0.0",
+    name: "find_trade_clusters",
+    description:
+      "Find groups of distinct politicians who traded the same asset in the same direction within a few days of each other. Each cluster lists its members with their party, chamber, state and committees, the party split, the committees members share, and the spread in days between the first and last trade.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: TRADE_QUERY_PROPERTIES.symbol,
+        windowDays: {
+          type: "number",
+          description: "Maximum days between a cluster's first and last trade (default: 7)",
+          default: 7,
+        },
+        minPoliticians: {
+          type: "number",
+          description: "Minimum number of distinct politicians in a cluster (default: 2)",
+          default: 2,
+        },
+        includeCommittees: {
+          type: "boolean",
+          description: "Look up each member's committees on their profile page, one request per member (default: true)",
+          default: true,
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of clusters to return (default: 20, max: 200)",
+          default: 20,
+        },
+        ...DATE_RANGE_PROPERTIES,
+        ...PAGING_PROPERTIES,
+      },
+      required: [],
+    },
   },
   {
-    capabilities: {
-      tools: {},
+    name: "add_to_watchlist",
+    description:
+      "Add politicians and/or tickers to a locally saved watchlist, creating the watchlist if it doesn't exist. Names are resolved to Capitol Trades IDs when added; ambiguous names return an error listing the candidates.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: WATCHLIST_NAME_PROPERTY,
+        politicians: {
+          type: "array",
+          items: { type: "string" },
+          description: "Politician names or IDs to watch (e.g., ['Nancy Pelosi', 'T000278'])",
+        },
+        tickers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Tickers, company names or issuer IDs to watch (e.g., ['NVDA', 'Microsoft'])",
+        },
+      },
+      required: [],
     },
-  }
-);
+  },
+  {
+    name: "remove_from_watchlist",
+    description:
+      "Remove politicians and/or tickers from a watchlist. With neither given, deletes the whole watchlist.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: WATCHLIST_NAME_PROPERTY,
+        politicians: {
+          type: "array",
+          items: { type: "string" },
+          description: "Politicians to stop watching, as added or by ID",
+        },
+        tickers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Tickers to stop watching, as added or by issuer ID",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "list_watchlists",
+    description: "List the saved watchlists with their politicians, tickers and when each was last checked.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "check_watchlist",
+    description:
+      "Get only the trades disclosed since a watchlist was last checked, by any watched politician or in any watched ticker. Each trade is reported once, even if it matches both a politician and a ticker. The first check covers the last 30 days of disclosures.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: WATCHLIST_NAME_PROPERTY,
+        markSeen: {
+          type: "boolean",
+          description: "Record the returned trades so the next check skips them (default: true). Set false to preview without consuming them.",
+          default: true,
+        },
+      },
+      required: [],
+    },
+  },
+];
 
-// Handler for listing available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: TOOLS,
-  };
-});
+/**
+ * Create an MCP server with every tool, resource and prompt registered
+ * stdio mode uses one; HTTP mode creates one per client session, all sharing the scraper's caches
+ * @returns A server ready to connect to a transport
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: "mcp-capitol-trades-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
 
-// Handler for executing tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  // Handler for listing available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: TOOLS,
+    };
+  });
+
+  // Handlers for listing and reading resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: RESOURCES,
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_TEMPLATES,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri);
+  });
+
+  // Handlers for listing and filling in prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: PROMPTS,
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, handleToolCall);
+
+  return server;
+}
+
+/**
+ * Handler for executing tool calls
+ */
+async function handleToolCall(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
 
   try {
@@ -198,39 +687,59 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     switch (name) {
-      case "get_politician_trades": {
-        const symbol = args.symbol as string | null;
-        const politician = args.politician as string | null;
-        // Normalize party: undefined or null both become null
-        const party = args.party === undefined || args.party === null ? null : (args.party as string);
-        const type = (args.type as string[]) || [];
-        const days = (args.days as number) || 90;
-
-        // Validate that days is one of the allowed values
-        const allowedDays = [30, 90, 180, 365];
-        if (!allowedDays.includes(days)) {
-          throw new Error(`days must be one of: ${allowedDays.join(', ')}`);
-        }
+      case "search_issuers": {
+        const query = args.query as string;
 
-        // Validate party - must be DEMOCRAT, REPUBLICAN, or null (treated as ALL)
-        if (party !== null && party !== "DEMOCRAT" && party !== "REPUBLICAN") {
-          throw new Error(`party must be 'DEMOCRAT' or 'REPUBLICAN'`);
+        if (!query || !query.trim()) {
+          throw new Error("query is required");
         }
 
-        // Validate type array - must be array of strings
-        if (!Array.isArray(type)) {
-          throw new Error("type must be an array of strings");
+        const issuers = await searchIssuers(query);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ query, totalResults: issuers.length, issuers }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "search_politicians": {
+        const query = args.name as string;
+
+        if (!query || !query.trim()) {
+          throw new Error("name is required");
         }
 
-        // Validate each type in the array
-        const allowedTypeValues = ["BUY", "SELL", "RECEIVE", "EXCHANGE"];
-        for (const t of type) {
-          if (!allowedTypeValues.includes(t)) {
-            throw new Error(`Each type must be one of: ${allowedTypeValues.join(', ')}`);
-          }
+        const politicians = await searchPoliticians(query);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ query, totalResults: politicians.length, politicians }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_politician_trades": {
+        const { symbol, politician, party, type } = getTradeQueryArgs(args);
+        const limit = (args.limit as number) || 50;
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
+
+        // Validate limit
+        if (limit < 1 || limit > 1000) {
+          throw new Error(`limit must be between 1 and 1000`);
         }
 
-        const result = await getPoliticianTrades(symbol, politician, party, type, days);
+        const filters = getTradeFilterArgs(args);
+        const paging = getTradePageArgs(args);
+
+        const result = await getPoliticianTrades(symbol, politician, party, type, window, limit, maxPages, filters, paging);
         
         return {
           content: [
@@ -244,20 +753,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "get_top_traded_assets": {
         const limit = (args.limit as number) || 10;
-        const days = (args.days as number) || 90;
-
-        // Validate that days is one of the allowed values
-        const allowedDays = [30, 90, 180, 365];
-        if (!allowedDays.includes(days)) {
-          throw new Error(`days must be one of: ${allowedDays.join(', ')}`);
-        }
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
 
         // Validate limit
         if (limit < 1 || limit > 50) {
           throw new Error(`limit must be between 1 and 50`);
         }
 
-        const result = await getTopTradedAssets(limit, days);
+        const result = await getTopTradedAssets(limit, window, maxPages);
         
         return {
           content: [
@@ -271,20 +775,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "get_politician_stats": {
         const politician = args.politician as string;
-        const days = (args.days as number) || 90;
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
 
         if (!politician) {
           throw new Error("politician is required");
         }
 
-        // Validate that days is one of the allowed values
-        const allowedDays = [30, 90, 180, 365];
-        if (!allowedDays.includes(days)) {
-          throw new Error(`days must be one of: ${allowedDays.join(', ')}`);
+        const result = await getPoliticianStats(politician, window, maxPages, args.includeProfile === true);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_politician_profile": {
+        const politician = args.politician as string;
+
+        if (!politician) {
+          throw new Error("politician is required");
         }
 
-        const result = await getPoliticianStats(politician, days);
-        
+        const result = await getPoliticianProfile(politician);
+
         return {
           content: [
             {
@@ -295,21 +813,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case "get_asset_stats": {
+      case "get_issuer_profile": {
         const symbol = args.symbol as string;
-        const days = (args.days as number) || 90;
 
         if (!symbol) {
           throw new Error("symbol is required");
         }
 
-        // Validate that days is one of the allowed values
-        const allowedDays = [30, 90, 180, 365];
-        if (!allowedDays.includes(days)) {
-          throw new Error(`days must be one of: ${allowedDays.join(', ')}`);
+        const result = await getIssuerProfile(symbol);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_asset_stats": {
+        const symbol = args.symbol as string;
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
+
+        if (!symbol) {
+          throw new Error("symbol is required");
         }
 
-        const result = await getAssetStats(symbol, days);
+        const result = await getAssetStats(symbol, window, maxPages, args.includeProfile === true);
         
         return {
           content: [
@@ -323,20 +855,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "get_buy_momentum_assets": {
         const limit = (args.limit as number) || 10;
-        const days = (args.days as number) || 90;
-
-        // Validate that days is one of the allowed values
-        const allowedDays = [30, 90, 180, 365];
-        if (!allowedDays.includes(days)) {
-          throw new Error(`days must be one of: ${allowedDays.join(', ')}`);
-        }
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
 
         // Validate limit
         if (limit < 1 || limit > 50) {
           throw new Error(`limit must be between 1 and 50`);
         }
 
-        const result = await getBuyMomentumAssets(limit, days);
+        const result = await getBuyMomentumAssets(limit, window, maxPages);
         
         return {
           content: [
@@ -350,20 +877,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "get_party_buy_momentum": {
         const limit = (args.limit as number) || 5;
-        const days = (args.days as number) || 90;
-
-        // Validate that days is one of the allowed values
-        const allowedDays = [30, 90, 180, 365];
-        if (!allowedDays.includes(days)) {
-          throw new Error(`days must be one of: ${allowedDays.join(', ')}`);
-        }
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
 
         // Validate limit
         if (limit < 1 || limit > 20) {
           throw new Error(`limit must be between 1 and 20`);
         }
 
-        const result = await getPartyBuyMomentum(limit, days);
+        const result = await getPartyBuyMomentum(limit, window, maxPages);
         
         return {
           content: [
@@ -375,6 +897,238 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "get_trade_detail": {
+        const trade = args.trade as string;
+
+        if (!trade || !trade.trim()) {
+          throw new Error("trade is required");
+        }
+
+        const result = await getTradeDetail(trade);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "export_trades": {
+        const filePath = args.path as string;
+        const { symbol, politician, party, type } = getTradeQueryArgs(args);
+        const limit = (args.limit as number) || 1000;
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
+
+        if (!filePath || typeof filePath !== "string" || !filePath.trim()) {
+          throw new Error("path is required");
+        }
+        if (limit < 1 || limit > 10000) {
+          throw new Error(`limit must be between 1 and 10000`);
+        }
+        // Check the format and path before scraping anything
+        const format = resolveExportFormat(filePath, args.format as string | undefined);
+        const exportDir = getExportDir();
+        resolveExportPath(filePath, exportDir);
+
+        const listing = await getPoliticianTrades(symbol, politician, party, type, window, limit, maxPages, getTradeFilterArgs(args), getTradePageArgs(args));
+        const exported = await exportTrades(listing.trades, filePath, format, exportDir);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ ...exported, filters: listing.filters, nextCursor: listing.nextCursor, coverage: listing.coverage }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_trade_performance": {
+        const { symbol, politician, party, type } = getTradeQueryArgs(args);
+        const limit = (args.limit as number) || 200;
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
+        const benchmark = (args.benchmark as string) || "SPY";
+
+        if (limit < 1 || limit > 1000) {
+          throw new Error(`limit must be between 1 and 1000`);
+        }
+        if (typeof benchmark !== "string") {
+          throw new Error("benchmark must be a ticker (e.g., 'SPY')");
+        }
+
+        const result = await getTradePerformance(symbol, politician, party, type, window, limit, maxPages, getTradeFilterArgs(args), getTradePageArgs(args), benchmark);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "backtest_strategy": {
+        const window = getDateRangeArgs({ days: 365, ...args, dateField: undefined });
+        const maxPages = getMaxPagesArg(args);
+        const options: BacktestOptions = {
+          strategy: args.strategy as BacktestOptions["strategy"],
+          politician: args.politician as string | undefined,
+          party: args.party as BacktestOptions["party"],
+          entry: args.entry as BacktestOptions["entry"],
+          holdDays: args.holdDays as number | undefined,
+          topN: args.topN as number | undefined,
+          lookbackDays: args.lookbackDays as number | undefined,
+          rebalanceDays: args.rebalanceDays as number | undefined,
+          benchmark: args.benchmark as string | undefined,
+          initialCapital: args.initialCapital as number | undefined,
+        };
+
+        if (!options.strategy) {
+          throw new Error("strategy is required");
+        }
+
+        const result = await runBacktest(options, window, maxPages);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_late_disclosures": {
+        const politician = (args.politician as string) || null;
+        const party = (args.party as string) || null;
+        const chamber = (args.chamber as string) || null;
+        const thresholdDays = (args.thresholdDays as number) ?? 45;
+        const limit = (args.limit as number) || 50;
+        const window = getDateRangeArgs({ days: 365, ...args });
+        const maxPages = getMaxPagesArg(args);
+
+        if (party !== null && party !== "DEMOCRAT" && party !== "REPUBLICAN") {
+          throw new Error("party must be 'DEMOCRAT' or 'REPUBLICAN'");
+        }
+        if (chamber !== null && chamber !== "HOUSE" && chamber !== "SENATE") {
+          throw new Error("chamber must be 'HOUSE' or 'SENATE'");
+        }
+        if (!Number.isInteger(thresholdDays) || thresholdDays < 0) {
+          throw new Error("thresholdDays must be a non-negative whole number");
+        }
+        if (limit < 1 || limit > 500) {
+          throw new Error(`limit must be between 1 and 500`);
+        }
+
+        const result = await getLateDisclosures(politician, party, chamber, window, limit, maxPages, thresholdDays);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "find_trade_clusters": {
+        const symbol = (args.symbol as string) || null;
+        const windowDays = (args.windowDays as number) ?? 7;
+        const minPoliticians = (args.minPoliticians as number) ?? 2;
+        const limit = (args.limit as number) || 20;
+        const window = getDateRangeArgs(args);
+        const maxPages = getMaxPagesArg(args);
+
+        if (!Number.isInteger(windowDays) || windowDays < 0) {
+          throw new Error("windowDays must be a non-negative whole number");
+        }
+        if (!Number.isInteger(minPoliticians) || minPoliticians < 2) {
+          throw new Error("minPoliticians must be a whole number of at least 2");
+        }
+        if (limit < 1 || limit > 200) {
+          throw new Error(`limit must be between 1 and 200`);
+        }
+
+        const result = await findTradeClusters(symbol, window, windowDays, minPoliticians, limit, maxPages, args.includeCommittees !== false);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "add_to_watchlist": {
+        const politicians = getStringListArg(args, "politicians");
+        const tickers = getStringListArg(args, "tickers");
+
+        if (politicians.length === 0 && tickers.length === 0) {
+          throw new Error("politicians or tickers is required");
+        }
+
+        const result = await addToWatchlist(getWatchlistNameArg(args), politicians, tickers);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "remove_from_watchlist": {
+        const watchlistName = getWatchlistNameArg(args);
+        const result = await removeFromWatchlist(watchlistName, getStringListArg(args, "politicians"), getStringListArg(args, "tickers"));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result ?? { deleted: watchlistName }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "list_watchlists": {
+        const watchlists = await listWatchlists();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ totalWatchlists: watchlists.length, watchlists }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "check_watchlist": {
+        const result = await checkWatchlist(getWatchlistNameArg(args), args.markSeen !== false);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -390,91 +1144,81 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
 
 /**
- * Get politician trades with advanced filters
+ * Read a "--name value" command line option
  */
-async function getPoliticianTrades(
-  symbol: string | null,
-  politician: string | null,
-  party: string | null,
-  type: string[],
-  days: number
-) {
-  try {
-    const baseUrl = "https://www.capitoltrades.com/trades";
-    const params: string[] = [];
+function getOption(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = argv[index + 1];
+  if (value === undefined || value.startsWith("--")) {
+    throw new Error(`--${name} requires a value`);
+  }
+  return value;
+}
 
-    // Get issuer ID if symbol is provided
-    if (symbol) {
-      const issuerId = await getIssuerId(symbol);
-      params.push(`issuer=${issuerId}`);
-    }
+/**
+ * Start the server on stdio, or over HTTP/SSE with --http <port> [--host <host>] [--cors-origin <origins>]
+ * --poll also checks the watchlists in the background and sends notifications for new trades
+ */
+async function startServer(argv: string[]) {
+  const httpPort = getOption(argv, "http");
 
-    // Get politician ID if politician is provided
-    if (politician) {
-      const politicianId = await getPoliticianId(politician);
-      params.push(`politician=${politicianId}`);
-    }
+  if (argv.includes("--poll")) {
+    const notificationConfig = await loadNotificationConfig();
+    startNotificationPolling(notificationConfig);
+    console.error(`Polling watchlists every ${notificationConfig.intervalMinutes} minutes for ${notificationConfig.targets.length} notification target(s)`);
+  }
 
-    // Add party filter if provided (not null)
-    if (party !== null) {
-      params.push(`party=${party.toLowerCase()}`);
-    }
+  if (httpPort === undefined) {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
 
-    // Add type filter(s) if not ALL
-    // If array has all 4 types OR is empty, treat as ALL (no filter)
-    const allTypes = ["BUY", "SELL", "RECEIVE", "EXCHANGE"];
-    const hasAllTypes = type.length === 4 && allTypes.every(t => type.includes(t));
-    const isAll = type.length === 0 || hasAllTypes;
-    
-    if (!isAll && type.length > 0) {
-      // Join types with comma for multiple filters
-      const typeParam = type.map(t => t.toLowerCase()).join(",");
-      params.push(`txType=${typeParam}`);
-    }
+    console.error("MCP Capitol Trades Server running on stdio");
+    return;
+  }
 
-    // Add date filter
-    params.push(`txDate=${days}d`);
-
-    // Construct the full URL
-    const url = `${baseUrl}?${params.join("&")}`;
-    
-    console.error(`Fetching politician trades from: ${url}`);
-    
-    // Get politician trades (limit to 50 by default)
-    const trades = await scrapePoliticianTrades(url, 50);
-    
-    return {
-      filters: {
-        symbol: symbol || null,
-        politician: politician || null,
-        party: party || "ALL",
-        type: type.length === 0 || hasAllTypes ? "ALL" : type,
-        days: days,
-      },
-      totalTrades: trades.length,
-      trades,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to get politician trades: ${errorMessage}`);
+  const port = Number(httpPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error("--http must be a port number");
   }
+  const config = getServeConfig();
+  const corsOption = getOption(argv, "cors-origin");
+  const host = getOption(argv, "host") || "127.0.0.1";
+  const httpServer = await startHttpServer(createServer, {
+    port,
+    host,
+    authToken: config.authToken,
+    corsOrigins: corsOption !== undefined ? corsOption.split(",").map((origin) => origin.trim()).filter(Boolean) : config.corsOrigins,
+  });
+
+  const address = httpServer.address();
+  const boundPort = typeof address === "object" && address ? address.port : port;
+  console.error(`MCP Capitol Trades Server listening on http://${host}:${boundPort}/sse${config.authToken ? " (bearer token required)" : ""}`);
 }
 
 /**
- * Start the server
+ * Run a CLI command (e.g., `trades --politician Pelosi`), or start the server when no command is given
  */
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  
-  console.error("MCP Capitol Trades Server running on stdio");
+  const argv = process.argv.slice(2);
+  if (argv[0] === "--help" || argv[0] === "-h") {
+    process.exitCode = await runCli(["help"], startServer);
+  } else if (argv.length > 0 && !argv[0].startsWith("-")) {
+    process.exitCode = await runCli(argv, startServer);
+  } else {
+    await startServer(argv);
+  }
 }
 
-main().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
-
+// Only start when run as a program, so createServer can be imported (e.g., by tests)
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
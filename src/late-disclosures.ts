@@ -0,0 +1,152 @@
+import { IsoDate, TradeWithPrice } from "./types.js";
+import { DateRange, DateRangeOptions, daysAgo, daysBetween, rangeDateOf, resolveDateRange, toDate, toIsoDate } from "./dates.js";
+import { describeRange, getPoliticianId, getTradesInRange } from "./politician-trades-scraper.js";
+
+/**
+ * STOCK Act compliance: trades disclosed after the statutory deadline
+ * Members of Congress must report a transaction no later than 45 days after making it; the
+ * reporting gap is the number of days from trade to disclosure as Capitol Trades shows it
+ */
+
+export const STOCK_ACT_DEADLINE_DAYS = 45;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const rate = (count: number, total: number) => (total > 0 ? parseFloat((count / total).toFixed(2)) : null);
+
+/**
+ * Compare a politician's reporting gaps in the earlier and the later half of the window
+ * direction is "improving" when the later half's median gap is shorter, "worsening" when longer,
+ * and null when either half has no trades
+ */
+function gapTrend(trades: TradeWithPrice[], range: DateRange, midpoint: IsoDate, thresholdDays: number) {
+  const half = (inHalf: (date: IsoDate) => boolean) => {
+    const gaps = trades
+      .filter((trade) => {
+        const date = rangeDateOf(trade, range.field);
+        return date !== null && inHalf(date);
+      })
+      .map((trade) => trade.dates.reportingGapDays!);
+    return {
+      trades: gaps.length,
+      lateTrades: gaps.filter((gap) => gap > thresholdDays).length,
+      medianGapDays: median(gaps),
+    };
+  };
+  const earlier = half((date) => date < midpoint);
+  const later = half((date) => date >= midpoint);
+
+  let direction: "improving" | "worsening" | "steady" | null = null;
+  if (earlier.medianGapDays !== null && later.medianGapDays !== null) {
+    direction = later.medianGapDays < earlier.medianGapDays ? "improving" : later.medianGapDays > earlier.medianGapDays ? "worsening" : "steady";
+  }
+  return { splitDate: midpoint, earlier, later, direction };
+}
+
+/**
+ * Get trades disclosed later than the STOCK Act's 45-day deadline, with a per-politician compliance summary
+ * (late count, late rate, median and maximum gap, and whether gaps got shorter over the window)
+ * Reads trades the same way as getPoliticianStats; trades without a known gap are left out
+ * @param politician - Optional politician name or ID to restrict to
+ * @param party - Optional 'DEMOCRAT' or 'REPUBLICAN'
+ * @param chamber - Optional 'HOUSE' or 'SENATE'
+ * @param limit - Maximum number of late trades and politicians to list
+ * @param thresholdDays - Gap beyond which a disclosure counts as late (default: 45)
+ */
+export async function getLateDisclosures(
+  politician: string | null,
+  party: string | null,
+  chamber: string | null,
+  window: number | DateRangeOptions,
+  limit: number = 50,
+  maxPages?: number,
+  thresholdDays: number = STOCK_ACT_DEADLINE_DAYS
+) {
+  try {
+    const range = resolveDateRange(window);
+    const politicianId = politician ? await getPoliticianId(politician) : undefined;
+    const { trades, coverage } = await getTradesInRange(range, politicianId ? { politicianId } : {}, maxPages);
+
+    const matching = trades.filter(
+      (trade) =>
+        (!party || trade.politician.party.toLowerCase().includes(party.toLowerCase())) &&
+        (!chamber || trade.politician.chamber.toLowerCase() === chamber.toLowerCase())
+    );
+    const known = matching.filter((trade) => trade.dates.reportingGapDays !== null);
+    const late = known.filter((trade) => trade.dates.reportingGapDays! > thresholdDays);
+
+    // Trend halves split the window (or, when it has no start, the trades' own span) in two
+    const dates = known.map((trade) => rangeDateOf(trade, range.field)).filter((date): date is IsoDate => date !== null).sort();
+    const start = range.from ?? dates[0] ?? toIsoDate(new Date());
+    const end = range.to ?? toIsoDate(new Date());
+    const midpoint = daysAgo(-Math.floor(Math.max(daysBetween(start, end), 0) / 2), toDate(start));
+
+    const byPolitician = new Map<string, TradeWithPrice[]>();
+    for (const trade of known) {
+      const key = trade.politician.id || trade.politician.name;
+      byPolitician.set(key, [...(byPolitician.get(key) || []), trade]);
+    }
+    const politicians = Array.from(byPolitician.values())
+      .map((group) => {
+        const gaps = group.map((trade) => trade.dates.reportingGapDays!);
+        const lateTrades = gaps.filter((gap) => gap > thresholdDays).length;
+        return {
+          politician: group[0].politician.name,
+          politicianId: group[0].politician.id ?? null,
+          party: group[0].politician.party,
+          chamber: group[0].politician.chamber,
+          state: group[0].politician.state,
+          trades: group.length,
+          lateTrades,
+          lateRate: rate(lateTrades, group.length),
+          medianGapDays: median(gaps),
+          maxGapDays: Math.max(...gaps),
+          trend: gapTrend(group, range, midpoint, thresholdDays),
+        };
+      })
+      .sort((a, b) => b.lateTrades - a.lateTrades || b.maxGapDays - a.maxGapDays)
+      .slice(0, limit);
+
+    const lateDisclosures = [...late]
+      .sort((a, b) => b.dates.reportingGapDays! - a.dates.reportingGapDays!)
+      .slice(0, limit)
+      .map((trade) => ({
+        politician: trade.politician,
+        issuer: trade.issuer,
+        type: trade.transaction.type,
+        size: trade.transaction.size,
+        tradeDate: trade.dates.tradeDate,
+        disclosureDate: trade.dates.disclosureDate,
+        reportingGapDays: trade.dates.reportingGapDays,
+        daysLate: trade.dates.reportingGapDays! - thresholdDays,
+        reportingGapTier: trade.dates.reportingGapTier,
+        detailUrl: trade.detailUrl,
+      }));
+
+    return {
+      thresholdDays,
+      filters: { politician, party: party || "ALL", chamber: chamber || "ALL" },
+      ...describeRange(range),
+      coverage,
+      totalTrades: known.length,
+      unknownGapTrades: matching.length - known.length,
+      totalLateTrades: late.length,
+      lateRate: rate(late.length, known.length),
+      medianGapDays: median(known.map((trade) => trade.dates.reportingGapDays!)),
+      totalPoliticians: byPolitician.size,
+      politiciansWithLateTrades: Array.from(byPolitician.values()).filter((group) => group.some((trade) => trade.dates.reportingGapDays! > thresholdDays)).length,
+      politicians,
+      lateDisclosures,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get late disclosures: ${errorMessage}`);
+  }
+}
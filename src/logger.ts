@@ -0,0 +1,15 @@
+/**
+ * Debug logging shared by every module
+ * Messages go to stderr, since stdout carries the MCP protocol in stdio mode
+ */
+
+const DEBUG = process.env.DEBUG === "true";
+
+/**
+ * Log to stderr when DEBUG=true
+ */
+export function logDebug(...args: unknown[]): void {
+  if (DEBUG) {
+    console.error(...args);
+  }
+}
@@ -0,0 +1,363 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { spawn } from "child_process";
+import axios from "axios";
+import { TradeWithPrice } from "./types.js";
+import { getDataDir } from "./trade-store.js";
+import { parseRetryAfter } from "./http-client.js";
+import { checkWatchlist, listWatchlists } from "./watchlist.js";
+import { logDebug } from "./logger.js";
+
+/**
+ * Outbound notifications for newly disclosed trades
+ * A background poll checks the watchlists and delivers each new trade to the configured
+ * targets: Slack-compatible webhooks, generic JSON webhooks or a local script. Deliveries
+ * that still fail after retrying are appended to a dead-letter log so nothing is lost silently.
+ */
+
+/**
+ * Where to deliver notifications
+ * - "json": POST { event, watchlist, trade } to url, where trade is a TradeWithPrice
+ * - "slack": POST a Slack incoming-webhook message ({ text }) to url
+ * - "script": run command with args, writing the same JSON payload as "json" to its stdin
+ */
+export interface NotificationTarget {
+  format: "json" | "slack" | "script";
+  url?: string;
+  headers?: Record<string, string>;
+  command?: string;
+  args?: string[];
+  // Watchlists this target receives (default: all)
+  watchlists?: string[];
+}
+
+/**
+ * Contents of the notification config file
+ */
+export interface NotificationConfig {
+  intervalMinutes: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  timeoutMs: number;
+  targets: NotificationTarget[];
+}
+
+/**
+ * The JSON body sent for each new trade
+ */
+export interface TradeNotification {
+  event: "trade.disclosed";
+  watchlist: string;
+  trade: TradeWithPrice;
+}
+
+/**
+ * A delivery that exhausted its retries, as written to the dead-letter log
+ */
+export interface DeadLetter {
+  failedAt: string;
+  target: NotificationTarget;
+  attempts: number;
+  error: string;
+  payload: TradeNotification;
+}
+
+const DEFAULT_CONFIG = {
+  intervalMinutes: 15,
+  maxRetries: 3,
+  retryBaseMs: 1000,
+  timeoutMs: 10000,
+};
+
+// Statuses worth retrying: rate limiting and transient server or gateway failures
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Path of the notification config file
+ * Override with CAPITOL_TRADES_NOTIFY_CONFIG (default: notifications.json in the data directory)
+ */
+export function getNotificationConfigPath(): string {
+  return process.env.CAPITOL_TRADES_NOTIFY_CONFIG || path.join(getDataDir(), "notifications.json");
+}
+
+/**
+ * Path of the dead-letter log (one JSON object per line)
+ */
+export function getDeadLetterPath(): string {
+  return path.join(getDataDir(), "notifications-dead-letter.ndjson");
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every((item) => typeof item === "string");
+
+/**
+ * Check one parsed notification target
+ * @param label - Where the target sits in the config, for error messages (e.g., "targets[0]")
+ */
+function parseNotificationTarget(raw: unknown, label: string): NotificationTarget {
+  if (!isRecord(raw)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  let target: NotificationTarget;
+  if (raw.format === "json" || raw.format === "slack") {
+    if (typeof raw.url !== "string" || !/^https?:\/\//.test(raw.url)) {
+      throw new Error(`${label} needs an http(s) url`);
+    }
+    target = { format: raw.format, url: raw.url };
+  } else if (raw.format === "script") {
+    if (typeof raw.command !== "string" || !raw.command) {
+      throw new Error(`${label} needs a command`);
+    }
+    target = { format: "script", command: raw.command };
+  } else {
+    throw new Error(`${label}.format must be 'json', 'slack' or 'script'`);
+  }
+
+  if (raw.headers !== undefined) {
+    if (!isStringRecord(raw.headers)) {
+      throw new Error(`${label}.headers must be an object of strings`);
+    }
+    target.headers = raw.headers;
+  }
+  if (raw.args !== undefined) {
+    if (!isStringArray(raw.args)) {
+      throw new Error(`${label}.args must be an array of strings`);
+    }
+    target.args = raw.args;
+  }
+  if (raw.watchlists !== undefined) {
+    if (!isStringArray(raw.watchlists)) {
+      throw new Error(`${label}.watchlists must be an array of watchlist names`);
+    }
+    target.watchlists = raw.watchlists;
+  }
+  return target;
+}
+
+/**
+ * Check a parsed config and fill in defaults
+ */
+export function parseNotificationConfig(raw: unknown): NotificationConfig {
+  if (!isRecord(raw)) {
+    throw new Error("config must be a JSON object");
+  }
+
+  const setting = (key: keyof typeof DEFAULT_CONFIG): number => {
+    const value = raw[key] === undefined ? DEFAULT_CONFIG[key] : raw[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+    return value;
+  };
+  const intervalMinutes = setting("intervalMinutes");
+  if (intervalMinutes <= 0) {
+    throw new Error("intervalMinutes must be greater than 0");
+  }
+  if (!Array.isArray(raw.targets) || raw.targets.length === 0) {
+    throw new Error("targets must list at least one notification target");
+  }
+
+  return {
+    intervalMinutes,
+    maxRetries: setting("maxRetries"),
+    retryBaseMs: setting("retryBaseMs"),
+    timeoutMs: setting("timeoutMs"),
+    targets: raw.targets.map((target, index) => parseNotificationTarget(target, `targets[${index}]`)),
+  };
+}
+
+/**
+ * Load the notification config file
+ */
+export async function loadNotificationConfig(): Promise<NotificationConfig> {
+  const configPath = getNotificationConfigPath();
+  try {
+    return parseNotificationConfig(JSON.parse(await fs.readFile(configPath, "utf8")));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load notification config ${configPath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * One-line summary of a trade for chat messages
+ */
+export function formatTradeText(trade: TradeWithPrice, watchlist: string): string {
+  const { politician, issuer, transaction, dates } = trade;
+  const member = [politician.party.charAt(0), politician.chamber, politician.state].filter(Boolean).join("-");
+  const asset = issuer.ticker && issuer.ticker !== "N/A" ? `${issuer.name} (${issuer.ticker})` : issuer.name;
+  const owner = transaction.owner && transaction.owner !== "self" && transaction.owner !== "undisclosed" ? ` (${transaction.owner})` : "";
+  const traded = dates.tradeDate || dates.trade;
+  const disclosed = dates.disclosureDate || dates.disclosure;
+  const link = trade.detailUrl ? ` <${trade.detailUrl}|details>` : "";
+  return `[${watchlist}] *${politician.name}*${member ? ` (${member})` : ""}: ${transaction.type} ${asset}, ${transaction.size}${owner}, traded ${traded}, disclosed ${disclosed}${link}`;
+}
+
+/**
+ * Run a local script with the payload on stdin; a non-zero exit is a failed delivery
+ */
+function runScript(target: NotificationTarget, body: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(target.command!, target.args || [], { stdio: ["pipe", "ignore", "pipe"], timeout: timeoutMs || undefined });
+    let stderr = "";
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("error", reject);
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`script exited with ${signal || `code ${code}`}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+      }
+    });
+    child.stdin.on("error", () => undefined);
+    child.stdin.end(body);
+  });
+}
+
+/**
+ * Make one delivery attempt
+ */
+async function sendOnce(target: NotificationTarget, payload: TradeNotification, timeoutMs: number): Promise<void> {
+  if (target.format === "script") {
+    await runScript(target, JSON.stringify(payload), timeoutMs);
+    return;
+  }
+  const body = target.format === "slack" ? { text: formatTradeText(payload.trade, payload.watchlist) } : payload;
+  await axios.post(target.url!, body, {
+    headers: { "Content-Type": "application/json", ...target.headers },
+    timeout: timeoutMs,
+    validateStatus: (status) => status >= 200 && status < 300,
+  });
+}
+
+/**
+ * Deliver a notification, retrying transient failures with exponential backoff
+ * Webhooks are retried on network errors, timeouts and 408/429/5xx (honoring Retry-After);
+ * scripts are retried on any failure
+ * @returns Number of attempts made
+ */
+export async function deliverNotification(target: NotificationTarget, payload: TradeNotification, config: NotificationConfig): Promise<number> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await sendOnce(target, payload, config.timeoutMs);
+      return attempt + 1;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const retryable = target.format === "script" || status === undefined || RETRYABLE_STATUSES.has(status);
+      if (attempt >= config.maxRetries || !retryable) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw Object.assign(new Error(errorMessage), { attempts: attempt + 1 });
+      }
+      const header = axios.isAxiosError(error) ? error.response?.headers?.["retry-after"] : undefined;
+      const retryAfter = status === 429 || status === 503 ? parseRetryAfter(typeof header === "string" ? header : undefined) : null;
+      const delay = retryAfter ?? config.retryBaseMs * 2 ** attempt;
+      logDebug(`Notification to ${target.url || target.command} failed (${status ?? "error"}), retry ${attempt + 1}/${config.maxRetries} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+async function appendDeadLetter(entry: DeadLetter): Promise<void> {
+  const deadLetterPath = getDeadLetterPath();
+  await fs.mkdir(path.dirname(deadLetterPath), { recursive: true });
+  await fs.appendFile(deadLetterPath, `${JSON.stringify(entry)}\n`, "utf8");
+}
+
+/**
+ * Check every watchlist a target subscribes to and deliver the new trades
+ * The poller keeps its own seen trades, apart from check_watchlist's, and its first cycle on a
+ * watchlist only covers the last few days. Trades are marked seen before delivery; failed
+ * deliveries go to the dead-letter log
+ * @param config - Notification config (see loadNotificationConfig)
+ * @returns New trades per watchlist and delivery counts
+ */
+export async function runNotificationCycle(config: NotificationConfig) {
+  try {
+    const existing = (await listWatchlists()).map((watchlist) => watchlist.name);
+    const subscribed = existing.filter((name) => config.targets.some((target) => !target.watchlists || target.watchlists.includes(name)));
+
+    const watchlists: Array<{ name: string; newTrades: number }> = [];
+    let delivered = 0;
+    let failed = 0;
+
+    for (const name of subscribed) {
+      const check = await checkWatchlist(name, true, "notify");
+      watchlists.push({ name, newTrades: check.totalNewTrades });
+
+      // Oldest first, so receivers see trades in the order they were disclosed
+      for (const trade of [...check.trades].reverse()) {
+        const payload: TradeNotification = { event: "trade.disclosed", watchlist: name, trade };
+        for (const target of config.targets) {
+          if (target.watchlists && !target.watchlists.includes(name)) {
+            continue;
+          }
+          try {
+            await deliverNotification(target, payload, config);
+            delivered++;
+          } catch (error) {
+            failed++;
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logDebug(`Notification to ${target.url || target.command} failed permanently: ${errorMessage}`);
+            await appendDeadLetter({
+              failedAt: new Date().toISOString(),
+              target,
+              attempts: (error as { attempts?: number }).attempts ?? 1,
+              error: errorMessage,
+              payload,
+            });
+          }
+        }
+      }
+    }
+
+    return { checkedAt: new Date().toISOString(), watchlists, delivered, failed };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to run notification cycle: ${errorMessage}`);
+  }
+}
+
+/**
+ * Poll the watchlists in the background, one cycle every config.intervalMinutes
+ * Cycles never overlap; a failed cycle is logged and the next one runs on schedule
+ * @returns A function that stops polling
+ */
+export function startNotificationPolling(config: NotificationConfig): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const runCycle = async () => {
+    try {
+      const result = await runNotificationCycle(config);
+      logDebug(`Notification cycle: ${result.delivered} delivered, ${result.failed} failed`);
+      if (result.failed > 0) {
+        console.error(`${result.failed} notification(s) failed; see ${getDeadLetterPath()}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(errorMessage);
+    }
+    if (!stopped) {
+      timer = setTimeout(runCycle, config.intervalMinutes * 60 * 1000);
+    }
+  };
+
+  void runCycle();
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
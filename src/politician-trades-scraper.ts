@@ -1,15 +1,14 @@
-import axios from "axios";
+import { createHash } from "crypto";
 import * as cheerio from "cheerio";
-import { TradeWithPrice } from "./types.js";
-import { findLink } from "./web-scraper.js";
-
-// Helper for conditional logging
-const DEBUG = process.env.DEBUG === "true";
-const logDebug = (...args: any[]) => {
-  if (DEBUG) {
-    console.error(...args);
-  }
-};
+import { IssuerCandidate, IssuerProfile, PoliticianCandidate, PoliticianProfile, TradeCoverage, TradeFilterOptions, TradePageOptions, TradeSortField, TradeFetchResult, TradeWithPrice } from "./types.js";
+import { getBaseUrl } from "./config.js";
+import { logDebug } from "./logger.js";
+import { fetchHtml } from "./http-client.js";
+import { dateCellText, extractPathId, normalizeOwner } from "./html-helpers.js";
+import { scrapeIssuerProfile, scrapePoliticianProfile } from "./profile-scraper.js";
+import { loadTradeStore, saveTradeStore, mergeTrades, queryTrades, isStoreComplete, TradeQuery } from "./trade-store.js";
+import { DateRange, DateRangeOptions, daysAgo, daysBetween, isInRange, parseDisplayDate, rangeDateOf, resolveDateRange, toIsoDate } from "./dates.js";
+import { isSizeWithin, parseTradeSize, siteTradeSizeBrackets } from "./trade-size.js";
 
 // In-memory cache for ID lookups (avoids redundant web requests)
 const idCache = new Map<string, { id: string; timestamp: number }>();
@@ -35,25 +34,21 @@ function setCachedId(key: string, id: string): void {
  */
 async function scrapePoliticianTradesSinglePage(url: string): Promise<TradeWithPrice[]> {
   try {
-    // Fetch the page with increased timeout
-    const response = await axios.get(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.5",
-      },
-      timeout: 60000, // Increased to 60 seconds
-      maxRedirects: 5,
-      validateStatus: function (status) {
-        return status >= 200 && status < 300;
-      },
-    });
-
-    const $ = cheerio.load(response.data);
+    const $ = cheerio.load(await fetchHtml(url));
     const trades: TradeWithPrice[] = [];
 
+    // Locate the date columns from the table header, falling back to the site's usual layout
+    // (Politician | Issuer | Published | Traded | Filed After | ...)
+    const headers = $("thead th").map((_, th) => $(th).text().trim().toLowerCase()).get();
+    const findColumn = (label: string, fallback: number) => {
+      const column = headers.findIndex((header: string) => header.includes(label) && !header.includes("issuer"));
+      return column >= 0 ? column : fallback;
+    };
+    const disclosureColumn = findColumn("published", 2);
+    const tradeColumn = findColumn("traded", 3);
+    const gapColumn = findColumn("filed", 4);
+    const ownerColumn = findColumn("owner", -1);
+
     // Try different row selectors
     let rows = $("tbody tr");
     
@@ -70,32 +65,32 @@ async function scrapePoliticianTradesSinglePage(url: string): Promise<TradeWithP
         const cells = $row.find("td");
         
         // Extract politician info
-        const politicianName = $row.find(".politician-name a, .politician a").first().text().trim() || "";
+        const politicianLink = $row.find(".politician-name a, .politician a").first();
+        const politicianName = politicianLink.text().trim() || "";
+        const politicianId = extractPathId(politicianLink.attr("href"), "politicians");
         const party = $row.find(".party").text().trim() || "";
         const chamber = $row.find(".chamber").text().trim() || "";
         const state = $row.find(".us-state-compact").text().trim() || "";
 
-        // Extract dates - try multiple strategies
-        let disclosureText = "";
-        let tradeText = "";
-        
-        // Try to find dates in specific columns
-        cells.each((i, cell) => {
-          const cellText = $(cell).text().trim();
-          // Look for date patterns (e.g., "23 Oct2025", "Nov 2025")
-          if (/^\d{1,2}\s+\w+20\d{2}$/.test(cellText) || /^\w+\s+20\d{2}$/.test(cellText)) {
-            if (!tradeText) {
-              tradeText = cellText;
-            } else if (!disclosureText) {
-              disclosureText = cellText;
-            }
-          }
-        });
-        
-        const reportingGap = $row.find(".reporting-gap-tier--2, .reporting-gap-tier--3, .reporting-gap-tier--4").text().trim() || "";
+        // Extract dates from their own columns (e.g., "23 Oct 2025", "13:05 Today")
+        const disclosureText = dateCellText($, cells.eq(disclosureColumn));
+        const tradeText = dateCellText($, cells.eq(tradeColumn));
+        const disclosureDate = parseDisplayDate(disclosureText);
+        const tradeDate = parseDisplayDate(tradeText);
+
+        // Reporting gap in days, from the tier badge (e.g., "reporting-gap-tier--3") or the "Filed After" column
+        const gapBadge = $row.find("[class*='reporting-gap-tier']").first();
+        const gapText = gapBadge.text().trim() || cells.eq(gapColumn).text().trim();
+        const tierMatch = (gapBadge.attr("class") || "").match(/reporting-gap-tier--(\d+)/);
+        const gapMatch = gapText.match(/\d+/);
+        let reportingGapDays = gapMatch ? parseInt(gapMatch[0], 10) : null;
+        if (reportingGapDays === null && disclosureDate && tradeDate) {
+          reportingGapDays = daysBetween(tradeDate, disclosureDate);
+        }
 
         // Extract transaction info
         const txType = $row.find(".tx-type").text().trim() || "";
+        const ownerText = $row.find(".cell--owner").first().text().trim() || (ownerColumn >= 0 ? cells.eq(ownerColumn).text().trim() : "");
         const tradeSizeText = $row.find(".trade-size .text-txt-dimmer, .trade-size").first().text().trim() || "";
         
         // Extract price from tooltip data attribute if available
@@ -107,9 +102,18 @@ async function scrapePoliticianTradesSinglePage(url: string): Promise<TradeWithP
         }
 
         // Extract issuer info
-        const issuerName = $row.find(".issuer-name a, .issuer a").first().text().trim() || "";
+        const issuerLink = $row.find(".issuer-name a, .issuer a").first();
+        const issuerName = issuerLink.text().trim() || "";
+        const issuerId = extractPathId(issuerLink.attr("href"), "issuers");
         const issuerTicker = $row.find(".issuer-ticker").text().trim() || "";
 
+        // Link to the trade's own page (e.g., "/trades/20003791001")
+        const tradeId = $row
+          .find("a[href*='/trades/']")
+          .map((_, link) => extractPathId($(link).attr("href"), "trades"))
+          .get()
+          .find((id: string) => /^\d+$/.test(id));
+
         // Validate that this is a real trade row (not empty or header row)
         // A valid trade should have at least politician name, issuer name, or transaction type
         if (!politicianName && !issuerName && !txType) {
@@ -120,25 +124,34 @@ async function scrapePoliticianTradesSinglePage(url: string): Promise<TradeWithP
         const trade: TradeWithPrice = {
           index: index + 1,
           politician: {
+            id: politicianId,
             name: politicianName,
             party: party,
             chamber: chamber,
             state: state,
           },
           issuer: {
+            id: issuerId,
             name: issuerName || "Unknown",
             ticker: issuerTicker || "N/A",
           },
           dates: {
             disclosure: disclosureText,
             trade: tradeText,
-            reportingGap: reportingGap ? reportingGap + " days" : "",
+            reportingGap: reportingGapDays !== null ? `${reportingGapDays} days` : "",
+            disclosureDate,
+            tradeDate,
+            reportingGapDays,
+            reportingGapTier: tierMatch ? parseInt(tierMatch[1], 10) : null,
           },
           transaction: {
             type: txType,
+            owner: normalizeOwner(ownerText),
             size: tradeSizeText,
+            ...parseTradeSize(tradeSizeText),
             price: price,
           },
+          detailUrl: tradeId ? `${getBaseUrl()}/trades/${tradeId}` : null,
         };
 
         trades.push(trade);
@@ -159,81 +172,463 @@ async function scrapePoliticianTradesSinglePage(url: string): Promise<TradeWithP
  * Uses cheerio for static HTML parsing and loops through pages
  * @param url - The Capitol Trades /trades URL with filters
  * @param limit - Maximum number of trades to return (default: 50)
+ * @param range - Optional date window applied to each page; the URL must be sorted newest first
+ *                on the range's date field so paging can stop once a page predates the window
  * @returns Array of politician trades with price data
  */
-export async function scrapePoliticianTrades(url: string, limit: number = 50): Promise<TradeWithPrice[]> {
+export async function scrapePoliticianTrades(url: string, limit: number = 50, range?: DateRange): Promise<TradeWithPrice[]> {
+  const result = await scrapeTradePages(url, { limit, range });
+  return result.trades;
+}
+
+// Rows requested per page when paging through /trades
+const PAGE_SIZE = 96;
+
+/**
+ * Scrape trades from the filtered /trades page, reporting how much was covered
+ * Pages until the site runs out of trades unless a limit, page budget or date window stops it first
+ * @param url - The Capitol Trades /trades URL with filters
+ * @param options.limit - Maximum number of trades to return (default: no limit)
+ * @param options.maxPages - Maximum number of pages to fetch (default: no limit)
+ * @param options.range - Optional date window, as for scrapePoliticianTrades
+ * @param options.filter - Optional check for rows the URL's filters can't express; rejected rows don't count toward the limit
+ * @returns Trades plus coverage: whether the result is complete and which dates it spans
+ */
+export async function scrapeTradePages(
+  url: string,
+  options: { limit?: number; maxPages?: number; range?: DateRange; filter?: (trade: TradeWithPrice) => boolean } = {}
+): Promise<TradeFetchResult> {
+  const { limit = Infinity, maxPages = Infinity, range, filter } = options;
   const allTrades: TradeWithPrice[] = [];
   let page = 1;
+  let pagesFetched = 0;
+  let stopReason: TradeCoverage["stopReason"] = "end";
   
   try {
-    // Determine base URL (remove any existing page parameter)
+    // Determine base URL (page parameter is set per request)
     const urlObj = new URL(url);
-    urlObj.searchParams.delete("page");
-    const baseUrl = urlObj.toString();
+    if (!urlObj.searchParams.has("pageSize")) {
+      urlObj.searchParams.set("pageSize", String(PAGE_SIZE));
+    }
     
-    logDebug(`Scraping politician trades with limit: ${limit}`);
+    logDebug(`Scraping politician trades with limit: ${limit}, max pages: ${maxPages}`);
     
-    while (allTrades.length < limit) {
+    // A full result only counts as cut short by the limit once another matching trade turns up,
+    // so paging continues past the limit until one does or the results end
+    while (true) {
+      if (pagesFetched >= maxPages) {
+        stopReason = "maxPages";
+        break;
+      }
+
       // Construct URL with page parameter
-      const pageUrl = `${baseUrl}&page=${page}`;
+      urlObj.searchParams.set("page", String(page));
+      const pageUrl = urlObj.toString();
       
       logDebug(`Fetching page ${page} from: ${pageUrl}`);
       
+      let pageTrades: TradeWithPrice[];
       try {
         // Scrape the current page
-        const pageTrades = await scrapePoliticianTradesSinglePage(pageUrl);
-        
-        // If no trades found, stop pagination
-        if (pageTrades.length === 0) {
-          logDebug(`No more trades found at page ${page}`);
-          break;
-        }
-        
-        logDebug(`Found ${pageTrades.length} trades on page ${page}`);
-        
-        // Add trades from this page
-        for (const trade of pageTrades) {
-          if (allTrades.length < limit) {
-            // Update index to reflect position in combined results
-            trade.index = allTrades.length + 1;
-            allTrades.push(trade);
-          }
-        }
-        
-        // If we got fewer trades than expected or reached limit, we're done
-        if (pageTrades.length === 0 || allTrades.length >= limit) {
-          break;
-        }
-        
-        page++;
-        
-        // Add a small delay to avoid overwhelming the server
-        await new Promise(resolve => setTimeout(resolve, 500));
+        pageTrades = await scrapePoliticianTradesSinglePage(pageUrl);
+        pagesFetched++;
       } catch (pageError) {
         logDebug(`Error fetching page ${page}:`, pageError);
         // If it's the first page and it fails, throw the error
-        // Otherwise, just stop pagination
+        // Otherwise, return what we have and flag the result as incomplete
         if (page === 1) {
           throw pageError;
         }
+        stopReason = "error";
+        break;
+      }
+        
+      // If no trades found, we've reached the end
+      if (pageTrades.length === 0) {
+        logDebug(`No more trades found at page ${page}`);
+        break;
+      }
+      
+      logDebug(`Found ${pageTrades.length} trades on page ${page}`);
+      
+      // Add trades from this page
+      for (const trade of pageTrades) {
+        if (range && !isInRange(rangeDateOf(trade, range.field), range)) {
+          continue;
+        }
+        if (filter && !filter(trade)) {
+          continue;
+        }
+        if (allTrades.length >= limit) {
+          // More matching trades exist than the limit allows
+          stopReason = "limit";
+          break;
+        }
+        // Update index to reflect position in combined results
+        trade.index = allTrades.length + 1;
+        allTrades.push(trade);
+      }
+      if (stopReason === "limit") {
         break;
       }
+
+      // Pages are sorted newest first, so a page entirely before the window ends the scan
+      const rangeFrom = range?.from;
+      if (rangeFrom && pageTrades.every((trade) => {
+        const date = rangeDateOf(trade, range.field);
+        return date !== null && date < rangeFrom;
+      })) {
+        logDebug(`Page ${page} predates ${rangeFrom}, stopping`);
+        stopReason = "window";
+        break;
+      }
+
+      page++;
     }
     
-    logDebug(`Total trades scraped: ${allTrades.length}`);
-    return allTrades;
+    logDebug(`Total trades scraped: ${allTrades.length} (${stopReason})`);
+    return { trades: allTrades, coverage: buildCoverage(allTrades, stopReason, pagesFetched) };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to scrape politician trades: ${errorMessage}`);
   }
 }
 
+/**
+ * Summarize which trades a fetch covered
+ */
+function buildCoverage(trades: TradeWithPrice[], stopReason: TradeCoverage["stopReason"], pagesFetched: number): TradeCoverage {
+  const tradeDates = trades
+    .map((trade) => trade.dates.tradeDate)
+    .filter((date): date is string => date !== null)
+    .sort();
+
+  return {
+    complete: stopReason === "end" || stopReason === "window",
+    stopReason,
+    pagesFetched,
+    earliestTradeDate: tradeDates[0] ?? null,
+    latestTradeDate: tradeDates[tradeDates.length - 1] ?? null,
+  };
+}
+
+// Relative windows the site can filter on directly (txDate=Nd / pubDate=Nd)
+const SITE_DAY_PRESETS = [30, 90, 180, 365];
+
+/**
+ * Build the site query parameters for a date range
+ * The site only filters on relative presets, so the narrowest preset that covers the range is
+ * sent (if any) and results are sorted newest first; the exact window is applied after fetching
+ */
+export function buildDateRangeParams(range: DateRange): string[] {
+  const param = range.field === "disclosure" ? "pubDate" : "txDate";
+  const params = [`sortBy=-${param}`];
+
+  if (range.from) {
+    const daysBack = daysBetween(range.from, toIsoDate(new Date()));
+    const preset = SITE_DAY_PRESETS.find((days) => days >= daysBack);
+    if (preset) {
+      params.push(`${param}=${preset}d`);
+    }
+  }
+  return params;
+}
+
+// How long a store sync is considered fresh before the next read triggers another one
+const STORE_SYNC_TTL = 1000 * 60 * 10; // 10 minutes
+// The store holds trades made within this many days
+const STORE_WINDOW_DAYS = 365;
+const SYNC_MAX_PAGES = 100;
+// Default page budget for a window with no start date, which would otherwise page through the whole site
+const OPEN_START_MAX_PAGES = 20;
+// Default page budget for sorts other than the site's, which re-read the window for every page of results
+const SORTED_MAX_PAGES = 20;
+
+/**
+ * Outcome of a store sync
+ */
+interface SyncResult {
+  added: number;
+  pagesFetched: number;
+  // Whether the sync reached trades already stored (false when it was cut short first)
+  caughtUp: boolean;
+  // Whether a page failed to load after its retries, ending the sync early
+  failed: boolean;
+}
+
+let syncInProgress: Promise<SyncResult> | null = null;
+
+/**
+ * Sync the local trade store with Capitol Trades
+ * Fetches pages newest-disclosure-first and stops at the first page that is entirely
+ * older than the store's syncedThrough watermark, so repeat syncs only fetch new pages.
+ * A sync that runs out of budget first leaves the watermark where it was, so the next sync
+ * starts over from the newest page and pages down through the gap.
+ * If an earlier backfill ran out of budget, the remaining budget resumes it.
+ * A page that fails to load ends the sync like a spent budget does: the trades merged so far are
+ * saved, but lastSync stays put so the next read tries again. Only an empty store fails outright.
+ * @param maxPages - Maximum number of pages to fetch (bounds the initial backfill)
+ * @returns Number of newly stored trades, pages fetched, whether the sync reached trades
+ *          already stored, and whether a page failed to load
+ */
+export async function syncTradeStore(maxPages: number = SYNC_MAX_PAGES): Promise<SyncResult> {
+  // Share a single sync between concurrent tool calls
+  if (syncInProgress) {
+    return syncInProgress;
+  }
+
+  syncInProgress = (async () => {
+    const store = await loadTradeStore();
+    const syncedThrough = store.syncedThrough;
+    // The first sync has nothing to catch up with: its pages run unbroken from the newest disclosure
+    let caughtUp = syncedThrough === null;
+    const baseUrl = `${getBaseUrl()}/trades?txDate=${STORE_WINDOW_DAYS}d&sortBy=-pubDate&pageSize=${PAGE_SIZE}`;
+    let added = 0;
+    let pagesFetched = 0;
+    let reachedEnd = false;
+    let failed = false;
+
+    const fetchPage = async (page: number) => {
+      const pageTrades = await scrapePoliticianTradesSinglePage(`${baseUrl}&page=${page}`);
+      pagesFetched++;
+      if (pageTrades.length === 0) {
+        reachedEnd = true;
+      } else if (!store.backfillComplete) {
+        // The backfill has read every page up to this one
+        store.backfillPage = Math.max(store.backfillPage, page + 1);
+      }
+      added += mergeTrades(store, pageTrades);
+      return pageTrades;
+    };
+
+    logDebug(`Syncing trade store (synced through: ${syncedThrough || "none"})`);
+
+    try {
+      let page = 1;
+      while (pagesFetched < maxPages && !reachedEnd) {
+        const pageTrades = await fetchPage(page);
+
+        // Same-day disclosures are re-fetched and deduplicated by key, so only stop once a page
+        // is strictly older than what an earlier sync already covered
+        if (syncedThrough && pageTrades.every((trade) => {
+          const disclosed = trade.dates.disclosureDate;
+          return disclosed !== null && disclosed < syncedThrough;
+        })) {
+          caughtUp = true;
+          break;
+        }
+        page++;
+      }
+
+      // Resume an unfinished backfill from the page after the last one it fetched
+      if (!store.backfillComplete && !reachedEnd) {
+        page = Math.max(page + 1, store.backfillPage);
+        while (pagesFetched < maxPages && !reachedEnd) {
+          await fetchPage(page);
+          page++;
+        }
+      }
+    } catch (pageError) {
+      // With nothing stored there is nothing to fall back on
+      if (store.trades.length === 0) {
+        throw pageError;
+      }
+      logDebug(`Trade store sync stopped by a failed page:`, pageError);
+      failed = true;
+    }
+
+    if (reachedEnd) {
+      store.backfillComplete = true;
+      caughtUp = true;
+    }
+    if (caughtUp) {
+      store.syncedThrough = store.latestDisclosure;
+    }
+    if (!failed) {
+      store.lastSync = new Date().toISOString();
+    }
+    await saveTradeStore(store);
+
+    logDebug(`Trade store sync added ${added} trades from ${pagesFetched} pages${caughtUp ? "" : ` (cut short by ${failed ? "a failed page" : "the page budget"})`}`);
+    return { added, pagesFetched, caughtUp, failed };
+  })();
+
+  try {
+    return await syncInProgress;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to sync trade store: ${errorMessage}`);
+  } finally {
+    syncInProgress = null;
+  }
+}
+
+/**
+ * Read trades from the local store, syncing first if the last sync is stale
+ * @param query - Store filters
+ * @param maxPages - Page budget for the sync (default: SYNC_MAX_PAGES)
+ */
+async function getStoredTrades(query: TradeQuery, maxPages?: number): Promise<TradeFetchResult> {
+  let store = await loadTradeStore();
+  const lastSync = store.lastSync ? Date.parse(store.lastSync) : 0;
+  let pagesFetched = 0;
+  let caughtUp = true;
+  let failed = false;
+
+  if (Date.now() - lastSync >= STORE_SYNC_TTL) {
+    ({ pagesFetched, caughtUp, failed } = await syncTradeStore(maxPages));
+    store = await loadTradeStore();
+  }
+
+  // Incomplete if this call's sync failed or ran out of budget before reaching the stored trades, or the store lacks the range
+  const complete = !failed && caughtUp && isStoreComplete(store, query.range);
+  const trades = queryTrades(store, query);
+  return { trades, coverage: buildCoverage(trades, failed ? "error" : complete ? "end" : "maxPages", pagesFetched) };
+}
+
+/**
+ * Get all trades in a date range for the aggregate tools
+ * Trade-date windows inside the store's coverage are read from the store; older windows and
+ * disclosure-date windows (which can include late filings of trades older than the store) are scraped live
+ * @param range - The date window
+ * @param filters - Optional politician/issuer IDs to restrict to
+ * @param maxPages - Optional page budget (default: page to the end, or 20 pages when the window has no start)
+ */
+export async function getTradesInRange(
+  range: DateRange,
+  filters: { politicianId?: string; issuerId?: string },
+  maxPages?: number
+): Promise<TradeFetchResult> {
+  if (range.field === "trade" && range.from && range.from >= daysAgo(STORE_WINDOW_DAYS)) {
+    return getStoredTrades({ ...filters, range }, maxPages);
+  }
+
+  const params: string[] = [];
+  if (filters.politicianId) params.push(`politician=${filters.politicianId}`);
+  if (filters.issuerId) params.push(`issuer=${filters.issuerId}`);
+  params.push(...buildDateRangeParams(range));
+
+  const url = `${getBaseUrl()}/trades?${params.join("&")}`;
+  logDebug(`Range is outside the local store, fetching from: ${url}`);
+  // Without a start date no page predates the window, so the scan is capped and reported as partial
+  return scrapeTradePages(url, { maxPages: maxPages ?? (range.from ? undefined : OPEN_START_MAX_PAGES), range });
+}
+
+/**
+ * Describe the resolved window in tool output
+ */
+export function describeRange(range: DateRange) {
+  return {
+    days: range.days ?? null,
+    window: { from: range.from, to: range.to, dateField: range.field },
+  };
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Pick the single candidate a query identifies
+ * Matchers are tried in priority order; the first one that matches exactly one candidate wins.
+ * If a matcher hits several candidates, or nothing narrows the list, the error lists them all.
+ * @param candidates - Search results
+ * @param matchers - Tests from most to least specific (e.g., exact ticker, then exact name)
+ * @param kind - Plural noun for error messages (e.g., "issuers")
+ * @param describe - Formats a candidate for the error message
+ */
+function pickCandidate<T extends { id: string }>(
+  candidates: T[],
+  matchers: Array<(candidate: T) => boolean>,
+  kind: string,
+  describe: (candidate: T) => string
+): T {
+  if (candidates.length === 0) {
+    throw new Error(`No ${kind} matched the search`);
+  }
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  let pool = candidates;
+  for (const matcher of matchers) {
+    const hits = candidates.filter(matcher);
+    if (hits.length === 1) {
+      return hits[0];
+    }
+    if (hits.length > 1) {
+      pool = hits;
+      break;
+    }
+  }
+
+  throw new Error(
+    `Ambiguous name matches ${pool.length} ${kind}: ${pool.map(describe).join("; ")}. Use a more specific name or one of these IDs`
+  );
+}
+
+/**
+ * Search Capitol Trades for issuers by name or ticker
+ * @param query - Company name or ticker (e.g., "Alphabet", "GOOGL")
+ * @returns Every matching issuer with ID, name, ticker and any sector or country shown
+ */
+export async function searchIssuers(query: string): Promise<IssuerCandidate[]> {
+  const url = `${getBaseUrl()}/issuers?search=${encodeURIComponent(query)}`;
+
+  try {
+    const $ = cheerio.load(await fetchHtml(url));
+    const candidates = new Map<string, IssuerCandidate>();
+
+    $("a[href*='/issuers/']").each((_, element) => {
+      const $link = $(element);
+      const id = extractPathId($link.attr("href"), "issuers");
+      const name = $link.text().trim();
+      if (!id || !name || candidates.has(id)) {
+        return;
+      }
+      // Metadata sits in the link's row (table layout) or card
+      const $item = $link.closest("tr, .index-card-link, .card");
+      const field = (selector: string) => $item.find(selector).first().text().trim() || null;
+      const ticker = field(".issuer-ticker") || "";
+      candidates.set(id, {
+        id,
+        name,
+        ticker,
+        sector: field(".sector"),
+        country: field(".country"),
+      });
+    });
+
+    return Array.from(candidates.values());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to search issuers for "${query}": ${errorMessage}`);
+  }
+}
+
+// Trailing words that don't distinguish one company from another
+const CORPORATE_SUFFIX = /\s+(inc|incorporated|corp|corporation|co|company|ltd|limited|plc|llc|lp|sa|nv|ag|se)$/;
+
+function coreCompanyName(name: string): string {
+  let core = normalizeName(name).replace(/^the\s+/, "");
+  while (CORPORATE_SUFFIX.test(core)) {
+    core = core.replace(CORPORATE_SUFFIX, "");
+  }
+  return core;
+}
+
 /**
  * Get the issuer ID from Capitol Trades
- * @param issuer - The issuer query (e.g., "AAPL", "Microsoft")
- * @returns The issuer ID (e.g., "apple-inc", "microsoft-corp")
+ * Accepts a ticker, a company name or an issuer ID. An exact ticker match wins over name
+ * matches (so "GOOG" never resolves to GOOGL); otherwise a name must identify a single
+ * issuer, ignoring suffixes like "Inc". Ambiguous names fail with the list of candidates.
+ * @param issuer - The issuer query (e.g., "AAPL", "Apple", "433382")
+ * @returns The issuer ID (e.g., "433382")
  */
 export async function getIssuerId(issuer: string): Promise<string> {
+  const trimmed = issuer.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return trimmed;
+  }
+
   // Check cache first
   const cachedId = getCachedId(`issuer:${issuer.toLowerCase()}`);
   if (cachedId) {
@@ -241,48 +636,83 @@ export async function getIssuerId(issuer: string): Promise<string> {
     return cachedId;
   }
 
-  const url = "https://www.capitoltrades.com/issuers";
-  const urlWithQueryParams = `${url}?search=${encodeURIComponent(issuer)}`;
-
   try {
-    // Find the issuer page link
-    const linkResult = await findLink(
-      urlWithQueryParams,
-      (link) => {
-        return link.href.includes("issuers/");
-      }
+    const candidates = await searchIssuers(trimmed);
+    const query = trimmed.toUpperCase();
+    const match = pickCandidate(
+      candidates,
+      [
+        (candidate) => candidate.ticker.toUpperCase() === query || candidate.ticker.split(":")[0].toUpperCase() === query,
+        (candidate) => normalizeName(candidate.name) === normalizeName(trimmed),
+        (candidate) => coreCompanyName(candidate.name) === coreCompanyName(trimmed),
+      ],
+      "issuers",
+      (candidate) => `${candidate.name} (${[candidate.id, candidate.ticker].filter(Boolean).join(", ")})`
     );
 
-    // Extract the issuer ID from the URL
-    // URL format: https://www.capitoltrades.com/issuers/issuer-id
-    const urlParts = linkResult.targetUrl.split("issuers/");
-    if (urlParts.length < 2) {
-      throw new Error(`Invalid issuer URL format: ${linkResult.targetUrl}`);
-    }
+    // Cache the result
+    setCachedId(`issuer:${issuer.toLowerCase()}`, match.id);
+    return match.id;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get issuer ID for "${issuer}": ${errorMessage}`);
+  }
+}
 
-    // Get the issuer ID (might include query params, remove them)
-    const issuerIdWithParams = urlParts[1];
-    const issuerId = issuerIdWithParams.split("?")[0].split("#")[0].trim();
+/**
+ * Search Capitol Trades for politicians by name
+ * @param query - Full or partial name (e.g., "Michael", "Nancy Pelosi")
+ * @returns Every matching politician with ID, party, chamber and state
+ */
+export async function searchPoliticians(query: string): Promise<PoliticianCandidate[]> {
+  const url = `${getBaseUrl()}/politicians?search=${encodeURIComponent(query)}`;
 
-    if (!issuerId) {
-      throw new Error(`Could not extract issuer ID from URL: ${linkResult.targetUrl}`);
-    }
+  try {
+    const $ = cheerio.load(await fetchHtml(url));
+    const candidates = new Map<string, PoliticianCandidate>();
 
-    // Cache the result
-    setCachedId(`issuer:${issuer.toLowerCase()}`, issuerId);
-    return issuerId;
+    $("a[href*='/politicians/']").each((_, element) => {
+      const $link = $(element);
+      const id = extractPathId($link.attr("href"), "politicians");
+      if (!id || candidates.has(id)) {
+        return;
+      }
+      const name = $link.find("h2, h3, .politician-name").first().text().trim() || $link.text().trim();
+      if (!name) {
+        return;
+      }
+      candidates.set(id, {
+        id,
+        name,
+        party: $link.find(".party").first().text().trim(),
+        chamber: $link.find(".chamber").first().text().trim(),
+        state: $link.find(".us-state-full, .us-state-compact").first().text().trim(),
+      });
+    });
+
+    return Array.from(candidates.values());
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to get issuer ID for "${issuer}": ${errorMessage}`);
+    throw new Error(`Failed to search politicians for "${query}": ${errorMessage}`);
   }
 }
 
+// Capitol Trades uses Bioguide IDs for politicians (e.g., "P000197")
+const POLITICIAN_ID_PATTERN = /^[A-Z]\d{6}$/;
+
 /**
  * Get the politician ID from Capitol Trades
- * @param politician - The politician query (e.g., "Michael", "Nancy Pelosi")
- * @returns The politician ID (e.g., "C001129")
+ * Accepts a name or a Bioguide ID. A name must identify a single politician: either the only
+ * search result or an exact full-name match. Otherwise the error lists every candidate.
+ * @param politician - The politician name or ID (e.g., "Nancy Pelosi", "P000197")
+ * @returns The politician ID (e.g., "P000197")
  */
 export async function getPoliticianId(politician: string): Promise<string> {
+  const trimmed = politician.trim();
+  if (POLITICIAN_ID_PATTERN.test(trimmed)) {
+    return trimmed;
+  }
+
   // Check cache first
   const cachedId = getCachedId(`politician:${politician.toLowerCase()}`);
   if (cachedId) {
@@ -290,69 +720,89 @@ export async function getPoliticianId(politician: string): Promise<string> {
     return cachedId;
   }
 
-  const url = "https://www.capitoltrades.com/politicians";
-  const urlWithQueryParams = `${url}?search=${encodeURIComponent(politician)}`;
-
   try {
-    // Find the politician page link
-    const linkResult = await findLink(
-      urlWithQueryParams,
-      (link) => {
-        return link.href.includes("politicians/");
-      }
+    const candidates = await searchPoliticians(trimmed);
+    const match = pickCandidate(
+      candidates,
+      [(candidate) => normalizeName(candidate.name) === normalizeName(trimmed)],
+      "politicians",
+      (candidate) => `${candidate.name} (${[candidate.id, candidate.party, candidate.chamber, candidate.state].filter(Boolean).join(", ")})`
     );
 
-    // Extract the politician ID from the URL
-    // URL format: https://www.capitoltrades.com/politicians/C001129
-    const urlParts = linkResult.targetUrl.split("politicians/");
-    if (urlParts.length < 2) {
-      throw new Error(`Invalid politician URL format: ${linkResult.targetUrl}`);
-    }
-
-    // Get the politician ID (might include query params, remove them)
-    const politicianIdWithParams = urlParts[1];
-    const politicianId = politicianIdWithParams.split("?")[0].split("#")[0].trim();
-
-    if (!politicianId) {
-      throw new Error(`Could not extract politician ID from URL: ${linkResult.targetUrl}`);
-    }
-
     // Cache the result
-    setCachedId(`politician:${politician.toLowerCase()}`, politicianId);
-    return politicianId;
+    setCachedId(`politician:${politician.toLowerCase()}`, match.id);
+    return match.id;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to get politician ID for "${politician}": ${errorMessage}`);
   }
 }
 
+/**
+ * Estimated dollar amount of a trade (midpoint of its size bracket, 0 if unknown)
+ */
+function estimatedAmount(trade: TradeWithPrice): number {
+  return trade.transaction.midpoint ?? 0;
+}
+
+/**
+ * Dollar-weighted buy/sell ratio (null when there is no sell volume to compare against)
+ */
+function dollarBuySellRatio(buyVolume: number, sellVolume: number): number | null {
+  return sellVolume > 0 ? parseFloat((buyVolume / sellVolume).toFixed(2)) : null;
+}
+
+/**
+ * Summarize estimated dollar volume for a set of trades
+ */
+function summarizeVolume(trades: TradeWithPrice[]) {
+  let estimatedVolume = 0;
+  let estimatedBuyVolume = 0;
+  let estimatedSellVolume = 0;
+
+  for (const trade of trades) {
+    const amount = estimatedAmount(trade);
+    const txType = trade.transaction.type?.toLowerCase();
+    estimatedVolume += amount;
+    if (txType === 'buy') estimatedBuyVolume += amount;
+    if (txType === 'sell') estimatedSellVolume += amount;
+  }
+
+  return {
+    estimatedVolume,
+    estimatedBuyVolume,
+    estimatedSellVolume,
+    dollarBuySellRatio: dollarBuySellRatio(estimatedBuyVolume, estimatedSellVolume),
+  };
+}
+
 /**
  * Get top traded assets by politicians
  */
-export async function getTopTradedAssets(limit: number, days: number) {
+export async function getTopTradedAssets(limit: number, window: number | DateRangeOptions, maxPages?: number) {
   try {
-    // Fetch all trades (no filters except days)
-    const url = `https://www.capitoltrades.com/trades?txDate=${days}d`;
+    const range = resolveDateRange(window);
+    logDebug(`Reading all trades for top assets analysis`);
     
-    logDebug(`Fetching all trades for top assets analysis`);
-    
-    // Get all trades (will be limited by scrapePoliticianTrades)
-    const trades = await scrapePoliticianTrades(url, 500); // Get more for better statistics
+    // Read all trades in the window
+    const { trades, coverage } = await getTradesInRange(range, {}, maxPages);
     
     // Group trades by issuer (asset)
-    const assetCounts = new Map<string, { count: number; ticker: string; name: string }>();
+    const assetCounts = new Map<string, { count: number; volume: number; ticker: string; name: string }>();
     
     for (const trade of trades) {
       const key = trade.issuer.name || "Unknown";
       if (!assetCounts.has(key)) {
         assetCounts.set(key, { 
           count: 0, 
+          volume: 0,
           ticker: trade.issuer.ticker,
           name: trade.issuer.name
         });
       }
       const asset = assetCounts.get(key)!;
       asset.count++;
+      asset.volume += estimatedAmount(trade);
       // Update ticker if available
       if (trade.issuer.ticker && trade.issuer.ticker !== "N/A") {
         asset.ticker = trade.issuer.ticker;
@@ -364,14 +814,16 @@ export async function getTopTradedAssets(limit: number, days: number) {
       .map(([name, data]) => ({
         issuer: name,
         ticker: data.ticker,
-        tradeCount: data.count
+        tradeCount: data.count,
+        estimatedVolume: data.volume
       }))
       .sort((a, b) => b.tradeCount - a.tradeCount)
       .slice(0, limit);
     
     return {
       limit,
-      days,
+      ...describeRange(range),
+      coverage,
       totalAssets: sortedAssets.length,
       assets: sortedAssets
     };
@@ -381,29 +833,49 @@ export async function getTopTradedAssets(limit: number, days: number) {
   }
 }
 
+/**
+ * Get a politician's profile (district, years in office, date of birth and the site's trading totals)
+ * @param politician - The politician name or ID (e.g., "Nancy Pelosi", "P000197")
+ */
+export async function getPoliticianProfile(politician: string): Promise<PoliticianProfile> {
+  try {
+    const politicianId = await getPoliticianId(politician);
+    return await scrapePoliticianProfile(politicianId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get politician profile: ${errorMessage}`);
+  }
+}
+
 /**
  * Get politician statistics including trading breakdown and top assets
+ * @param includeProfile - Also fetch the politician's profile page and return it as `profile`
  */
-export async function getPoliticianStats(politician: string, days: number) {
+export async function getPoliticianStats(politician: string, window: number | DateRangeOptions, maxPages?: number, includeProfile: boolean = false) {
   try {
+    const range = resolveDateRange(window);
+
     // Get politician ID
     const politicianId = await getPoliticianId(politician);
     
-    // Fetch all trades for this politician
-    const url = `https://www.capitoltrades.com/trades?politician=${politicianId}&txDate=${days}d`;
-    const trades = await scrapePoliticianTrades(url, 200);
+    // Read all trades for this politician in the window
+    const { trades, coverage } = await getTradesInRange(range, { politicianId }, maxPages);
+    const profile = includeProfile ? await scrapePoliticianProfile(politicianId) : undefined;
     
     // Calculate statistics
     const stats = {
       politician,
-      days,
+      ...(profile && { profile }),
+      ...describeRange(range),
+      coverage,
       totalTrades: trades.length,
       buys: trades.filter(t => t.transaction.type?.toLowerCase() === 'buy').length,
       sells: trades.filter(t => t.transaction.type?.toLowerCase() === 'sell').length,
       receives: trades.filter(t => t.transaction.type?.toLowerCase() === 'receive').length,
       exchanges: trades.filter(t => t.transaction.type?.toLowerCase() === 'exchange').length,
       buySellRatio: 0, // Will calculate below
-      mostTradedAssets: [] as Array<{issuer: string, ticker: string, transactionCount: number}>,
+      ...summarizeVolume(trades),
+      mostTradedAssets: [] as Array<{issuer: string, ticker: string, transactionCount: number, estimatedVolume: number}>,
     };
     
     // Calculate buy/sell ratio
@@ -414,16 +886,17 @@ export async function getPoliticianStats(politician: string, days: number) {
     }
     
     // Group all trades by issuer to find most traded assets (includes stocks, ETFs, bonds, etc.)
-    const assetMap = new Map<string, { ticker: string, count: number }>();
+    const assetMap = new Map<string, { ticker: string, count: number, volume: number }>();
     
     for (const trade of trades) {
       // Count ALL transaction types (buy, sell, receive, exchange)
       const key = trade.issuer.name || "Unknown";
       if (!assetMap.has(key)) {
-        assetMap.set(key, { ticker: trade.issuer.ticker, count: 0 });
+        assetMap.set(key, { ticker: trade.issuer.ticker, count: 0, volume: 0 });
       }
       const asset = assetMap.get(key)!;
       asset.count++;
+      asset.volume += estimatedAmount(trade);
     }
     
     // Sort by count and get top 10 most traded assets
@@ -431,7 +904,8 @@ export async function getPoliticianStats(politician: string, days: number) {
       .map(([name, data]) => ({
         issuer: name,
         ticker: data.ticker,
-        transactionCount: data.count
+        transactionCount: data.count,
+        estimatedVolume: data.volume
       }))
       .sort((a, b) => b.transactionCount - a.transactionCount)
       .slice(0, 10);
@@ -443,29 +917,49 @@ export async function getPoliticianStats(politician: string, days: number) {
   }
 }
 
+/**
+ * Get an issuer's profile (sector, industry, country, market cap and aggregate politician activity)
+ * @param symbol - Ticker, company name or issuer ID (e.g., "NVDA", "NVIDIA", "435544")
+ */
+export async function getIssuerProfile(symbol: string): Promise<IssuerProfile> {
+  try {
+    const issuerId = await getIssuerId(symbol);
+    return await scrapeIssuerProfile(issuerId);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get issuer profile: ${errorMessage}`);
+  }
+}
+
 /**
  * Get asset statistics including trading breakdown and most active traders
+ * @param includeProfile - Also fetch the issuer's profile page and return it as `profile`
  */
-export async function getAssetStats(symbol: string, days: number) {
+export async function getAssetStats(symbol: string, window: number | DateRangeOptions, maxPages?: number, includeProfile: boolean = false) {
   try {
+    const range = resolveDateRange(window);
+
     // Get issuer ID
     const issuerId = await getIssuerId(symbol);
     
-    // Fetch all trades for this issuer
-    const url = `https://www.capitoltrades.com/trades?issuer=${issuerId}&txDate=${days}d`;
-    const trades = await scrapePoliticianTrades(url, 200);
+    // Read all trades for this issuer in the window
+    const { trades, coverage } = await getTradesInRange(range, { issuerId }, maxPages);
+    const profile = includeProfile ? await scrapeIssuerProfile(issuerId) : undefined;
     
     // Calculate statistics
     const stats = {
       symbol,
-      days,
+      ...(profile && { profile }),
+      ...describeRange(range),
+      coverage,
       totalTrades: trades.length,
       buys: trades.filter(t => t.transaction.type?.toLowerCase() === 'buy').length,
       sells: trades.filter(t => t.transaction.type?.toLowerCase() === 'sell').length,
       receives: trades.filter(t => t.transaction.type?.toLowerCase() === 'receive').length,
       exchanges: trades.filter(t => t.transaction.type?.toLowerCase() === 'exchange').length,
       buySellRatio: 0, // Will calculate below
-      mostActiveTraders: [] as Array<{politician: string, party: string, chamber: string, transactionCount: number}>,
+      ...summarizeVolume(trades),
+      mostActiveTraders: [] as Array<{politician: string, party: string, chamber: string, transactionCount: number, estimatedVolume: number}>,
     };
     
     // Calculate buy/sell ratio
@@ -476,7 +970,7 @@ export async function getAssetStats(symbol: string, days: number) {
     }
     
     // Group all trades by politician to find most active traders
-    const politicianMap = new Map<string, { party: string, chamber: string, count: number }>();
+    const politicianMap = new Map<string, { party: string, chamber: string, count: number, volume: number }>();
     
     for (const trade of trades) {
       // Count ALL transaction types (buy, sell, receive, exchange)
@@ -485,11 +979,13 @@ export async function getAssetStats(symbol: string, days: number) {
         politicianMap.set(key, { 
           party: trade.politician.party, 
           chamber: trade.politician.chamber,
-          count: 0 
+          count: 0,
+          volume: 0
         });
       }
       const politician = politicianMap.get(key)!;
       politician.count++;
+      politician.volume += estimatedAmount(trade);
     }
     
     // Sort by count and get top 10 most active traders
@@ -498,7 +994,8 @@ export async function getAssetStats(symbol: string, days: number) {
         politician: name,
         party: data.party,
         chamber: data.chamber,
-        transactionCount: data.count
+        transactionCount: data.count,
+        estimatedVolume: data.volume
       }))
       .sort((a, b) => b.transactionCount - a.transactionCount)
       .slice(0, 10);
@@ -511,70 +1008,242 @@ export async function getAssetStats(symbol: string, days: number) {
 }
 
 /**
- * Get buy momentum assets - assets where politicians are net buyers
+ * Rank the assets politicians are net buying in a set of trades (by buy/sell ratio, then buys)
  */
-export async function getBuyMomentumAssets(limit: number, days: number) {
-  try {
-    // Fetch all trades
-    const url = `https://www.capitoltrades.com/trades?txDate=${days}d`;
-    const trades = await scrapePoliticianTrades(url, 500);
-    
-    // Group by issuer and track buy vs sell activity
-    const assetMap = new Map<string, {
-      ticker: string,
-      buys: number,
-      sells: number,
-      totalTrades: number,
-      buySellRatio: number
-    }>();
+export function rankBuyMomentumAssets(trades: TradeWithPrice[], limit: number) {
+  // Group by issuer and track buy vs sell activity
+  const assetMap = new Map<string, {
+    ticker: string,
+    buys: number,
+    sells: number,
+    buyVolume: number,
+    sellVolume: number,
+    totalTrades: number,
+    buySellRatio: number
+  }>();
+  
+  for (const trade of trades) {
+    const key = trade.issuer.name || "Unknown";
+    if (!assetMap.has(key)) {
+      assetMap.set(key, {
+        ticker: trade.issuer.ticker,
+        buys: 0,
+        sells: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        totalTrades: 0,
+        buySellRatio: 0
+      });
+    }
     
-    for (const trade of trades) {
-      const key = trade.issuer.name || "Unknown";
-      if (!assetMap.has(key)) {
-        assetMap.set(key, {
-          ticker: trade.issuer.ticker,
-          buys: 0,
-          sells: 0,
-          totalTrades: 0,
-          buySellRatio: 0
-        });
+    const asset = assetMap.get(key)!;
+    asset.totalTrades++;
+    
+    const txType = trade.transaction.type?.toLowerCase();
+    if (txType === 'buy') {
+      asset.buys++;
+      asset.buyVolume += estimatedAmount(trade);
+    }
+    if (txType === 'sell') {
+      asset.sells++;
+      asset.sellVolume += estimatedAmount(trade);
+    }
+  }
+  
+  // Calculate buy/sell ratios and filter for net buyers (more buys than sells)
+  const buyMomentumAssets = Array.from(assetMap.entries())
+    .map(([name, data]) => {
+      data.buySellRatio = data.sells > 0 ? data.buys / data.sells : data.buys;
+      return { name, ...data };
+    })
+    .filter(asset => asset.buys > asset.sells) // Only net buyers
+    .sort((a, b) => {
+      // Sort by: (1) buy/sell ratio, (2) total buy volume
+      const ratioDiff = b.buySellRatio - a.buySellRatio;
+      return ratioDiff !== 0 ? ratioDiff : b.buys - a.buys;
+    })
+    .slice(0, limit)
+    .map((asset, index) => ({
+      rank: index + 1,
+      issuer: asset.name,
+      ticker: asset.ticker,
+      buys: asset.buys,
+      sells: asset.sells,
+      netBuys: asset.buys - asset.sells,
+      buySellRatio: parseFloat(asset.buySellRatio.toFixed(2)),
+      estimatedBuyVolume: asset.buyVolume,
+      estimatedSellVolume: asset.sellVolume,
+      estimatedNetBuyVolume: asset.buyVolume - asset.sellVolume,
+      dollarBuySellRatio: dollarBuySellRatio(asset.buyVolume, asset.sellVolume),
+      totalTransactions: asset.totalTrades
+    }));
+
+  return buyMomentumAssets;
+}
+
+/**
+ * One party's buying and selling of an asset
+ */
+interface PartyActivity {
+  buys: number;
+  sells: number;
+  netBuys: number;
+  estimatedBuyVolume: number;
+  estimatedSellVolume: number;
+  dollarBuySellRatio: number | null;
+}
+
+/**
+ * An asset one or both parties are net buying, scored for its category
+ */
+interface PartyMomentumAsset {
+  issuer: string;
+  ticker: string;
+  democrats: PartyActivity;
+  republicans: PartyActivity;
+  score: number;
+}
+
+/**
+ * Rank the assets each party is net buying in a set of trades: consensus, Democrat and Republican favorites
+ */
+export function rankPartyBuyMomentum(trades: TradeWithPrice[], limit: number) {
+  // Group by issuer and track buy/sell by party
+  const assetMap = new Map<string, {
+    ticker: string,
+    democrats: { buys: number, sells: number, buyVolume: number, sellVolume: number },
+    republicans: { buys: number, sells: number, buyVolume: number, sellVolume: number }
+  }>();
+  
+  for (const trade of trades) {
+    const key = trade.issuer.name || "Unknown";
+    const ticker = trade.issuer.ticker;
+    
+    if (!assetMap.has(key)) {
+      assetMap.set(key, {
+        ticker,
+        democrats: { buys: 0, sells: 0, buyVolume: 0, sellVolume: 0 },
+        republicans: { buys: 0, sells: 0, buyVolume: 0, sellVolume: 0 }
+      });
+    }
+    
+    const asset = assetMap.get(key)!;
+    const txType = trade.transaction.type?.toLowerCase();
+    const politician = trade.politician;
+    
+    // Check party from politician data
+    const partyLower = politician?.party?.toLowerCase() || '';
+    const isDemocrat = partyLower.includes('democrat');
+    const isRepublican = partyLower.includes('republican');
+    const side = isDemocrat ? asset.democrats : isRepublican ? asset.republicans : null;
+    
+    if (side && txType === 'buy') {
+      side.buys++;
+      side.buyVolume += estimatedAmount(trade);
+    }
+    if (side && txType === 'sell') {
+      side.sells++;
+      side.sellVolume += estimatedAmount(trade);
+    }
+  }
+  
+  // Process into categories
+  const consensus: PartyMomentumAsset[] = [];
+  const democratFavorites: PartyMomentumAsset[] = [];
+  const republicanFavorites: PartyMomentumAsset[] = [];
+  
+  for (const [name, data] of assetMap.entries()) {
+    const demNet = data.democrats.buys - data.democrats.sells;
+    const repNet = data.republicans.buys - data.republicans.sells;
+    const demTotal = data.democrats.buys + data.democrats.sells;
+    const repTotal = data.republicans.buys + data.republicans.sells;
+    const breakdown = {
+      democrats: {
+        buys: data.democrats.buys,
+        sells: data.democrats.sells,
+        netBuys: demNet,
+        estimatedBuyVolume: data.democrats.buyVolume,
+        estimatedSellVolume: data.democrats.sellVolume,
+        dollarBuySellRatio: dollarBuySellRatio(data.democrats.buyVolume, data.democrats.sellVolume)
+      },
+      republicans: {
+        buys: data.republicans.buys,
+        sells: data.republicans.sells,
+        netBuys: repNet,
+        estimatedBuyVolume: data.republicans.buyVolume,
+        estimatedSellVolume: data.republicans.sellVolume,
+        dollarBuySellRatio: dollarBuySellRatio(data.republicans.buyVolume, data.republicans.sellVolume)
       }
-      
-      const asset = assetMap.get(key)!;
-      asset.totalTrades++;
-      
-      const txType = trade.transaction.type?.toLowerCase();
-      if (txType === 'buy') asset.buys++;
-      if (txType === 'sell') asset.sells++;
+    };
+    
+    // Consensus: both parties are net buyers and have significant activity
+    if (demNet > 0 && repNet > 0 && demTotal >= 2 && repTotal >= 2) {
+      consensus.push({
+        issuer: name,
+        ticker: data.ticker,
+        ...breakdown,
+        score: demNet + repNet // Total net buys across both parties
+      });
     }
     
-    // Calculate buy/sell ratios and filter for net buyers (more buys than sells)
-    const buyMomentumAssets = Array.from(assetMap.entries())
-      .map(([name, data]) => {
-        data.buySellRatio = data.sells > 0 ? data.buys / data.sells : data.buys;
-        return { name, ...data };
-      })
-      .filter(asset => asset.buys > asset.sells) // Only net buyers
-      .sort((a, b) => {
-        // Sort by: (1) buy/sell ratio, (2) total buy volume
-        const ratioDiff = b.buySellRatio - a.buySellRatio;
-        return ratioDiff !== 0 ? ratioDiff : b.buys - a.buys;
-      })
-      .slice(0, limit)
-      .map((asset, index) => ({
-        rank: index + 1,
-        issuer: asset.name,
-        ticker: asset.ticker,
-        buys: asset.buys,
-        sells: asset.sells,
-        netBuys: asset.buys - asset.sells,
-        buySellRatio: parseFloat(asset.buySellRatio.toFixed(2)),
-        totalTransactions: asset.totalTrades
-      }));
+    // Democrat favorites: net buyers, more activity from Democrats
+    if (demNet > 0 && demTotal >= repTotal) {
+      democratFavorites.push({
+        issuer: name,
+        ticker: data.ticker,
+        ...breakdown,
+        score: demNet
+      });
+    }
+    
+    // Republican favorites: net buyers, more activity from Republicans
+    if (repNet > 0 && repTotal >= demTotal) {
+      republicanFavorites.push({
+        issuer: name,
+        ticker: data.ticker,
+        ...breakdown,
+        score: repNet
+      });
+    }
+  }
+  
+  // Sort each category by score
+  consensus.sort((a, b) => b.score - a.score);
+  democratFavorites.sort((a, b) => b.score - a.score);
+  republicanFavorites.sort((a, b) => b.score - a.score);
+
+  return {
+    consensus: consensus.slice(0, limit).map((asset, idx) => ({
+      rank: idx + 1,
+      ...asset
+    })),
+    democratFavorites: democratFavorites.slice(0, limit).map((asset, idx) => ({
+      rank: idx + 1,
+      ...asset
+    })),
+    republicanFavorites: republicanFavorites.slice(0, limit).map((asset, idx) => ({
+      rank: idx + 1,
+      ...asset
+    }))
+  };
+}
+
+/**
+ * Get buy momentum assets - assets where politicians are net buyers
+ */
+export async function getBuyMomentumAssets(limit: number, window: number | DateRangeOptions, maxPages?: number) {
+  try {
+    const range = resolveDateRange(window);
+
+    // Read all trades in the window
+    const { trades, coverage } = await getTradesInRange(range, {}, maxPages);
+    
+    const buyMomentumAssets = rankBuyMomentumAssets(trades, limit);
     
     return {
       limit,
-      days,
+      ...describeRange(range),
+      coverage,
       totalAssets: buyMomentumAssets.length,
       disclaimer: "This shows assets where politicians are net buyers. Not investment advice.",
       assets: buyMomentumAssets
@@ -588,144 +1257,250 @@ export async function getBuyMomentumAssets(limit: number, days: number) {
 /**
  * Get buy momentum broken down by political party
  */
-export async function getPartyBuyMomentum(limit: number, days: number) {
+export async function getPartyBuyMomentum(limit: number, window: number | DateRangeOptions, maxPages?: number) {
   try {
-    // Fetch all trades
-    const url = `https://www.capitoltrades.com/trades?txDate=${days}d`;
-    const trades = await scrapePoliticianTrades(url, 500);
-    
-    // Group by issuer and track buy/sell by party
-    const assetMap = new Map<string, {
-      ticker: string,
-      democrats: { buys: number, sells: number },
-      republicans: { buys: number, sells: number }
-    }>();
+    const range = resolveDateRange(window);
+
+    // Read all trades in the window
+    const { trades, coverage } = await getTradesInRange(range, {}, maxPages);
     
-    for (const trade of trades) {
-      const key = trade.issuer.name || "Unknown";
-      const ticker = trade.issuer.ticker;
-      
-      if (!assetMap.has(key)) {
-        assetMap.set(key, {
-          ticker,
-          democrats: { buys: 0, sells: 0 },
-          republicans: { buys: 0, sells: 0 }
-        });
-      }
-      
-      const asset = assetMap.get(key)!;
-      const txType = trade.transaction.type?.toLowerCase();
-      const politician = trade.politician;
-      
-      // Check party from politician data
-      const partyLower = politician?.party?.toLowerCase() || '';
-      const isDemocrat = partyLower.includes('democrat');
-      const isRepublican = partyLower.includes('republican');
-      
-      if (txType === 'buy') {
-        if (isDemocrat) asset.democrats.buys++;
-        if (isRepublican) asset.republicans.buys++;
-      }
-      if (txType === 'sell') {
-        if (isDemocrat) asset.democrats.sells++;
-        if (isRepublican) asset.republicans.sells++;
+    return {
+      limit,
+      ...describeRange(range),
+      coverage,
+      disclaimer: "This shows assets where politicians are net buyers. Not investment advice.",
+      ...rankPartyBuyMomentum(trades, limit)
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get party buy momentum: ${errorMessage}`);
+  }
+}
+
+// Site filter values are lowercase slugs (e.g., "Information Technology" -> "information-technology")
+const toSlug = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+/**
+ * Translate extra trade filters into site query parameters plus a check for parsed rows
+ * The check re-applies every filter the rows carry (chamber, state, owner, size) in case the
+ * site ignores a parameter; asset type and sector aren't shown in rows, so only the site applies them
+ */
+function buildTradeFilters(filters: TradeFilterOptions): { params: string[]; matches: (trade: TradeWithPrice) => boolean } {
+  const params: string[] = [];
+  const chamber = filters.chamber?.trim().toLowerCase();
+  const state = filters.state?.trim().toUpperCase();
+  const owners = (filters.owner || []).map((owner) => owner.trim().toLowerCase());
+  const { minSize, maxSize } = filters;
+
+  if (chamber) {
+    params.push(`chamber=${encodeURIComponent(chamber)}`);
+  }
+  if (state) {
+    params.push(`state=${encodeURIComponent(state.toLowerCase())}`);
+  }
+  if (owners.length > 0) {
+    params.push(`owner=${owners.map(encodeURIComponent).join(",")}`);
+  }
+  if (minSize !== undefined || maxSize !== undefined) {
+    const brackets = siteTradeSizeBrackets(minSize, maxSize);
+    if (brackets.length > 0) {
+      params.push(`tradeSize=${brackets.join(",")}`);
+    }
+  }
+  if (filters.assetType?.length) {
+    params.push(`assetType=${filters.assetType.map(toSlug).join(",")}`);
+  }
+  if (filters.sector?.length) {
+    params.push(`sector=${filters.sector.map(toSlug).join(",")}`);
+  }
+
+  const matches = (trade: TradeWithPrice) => {
+    if (chamber && trade.politician.chamber.toLowerCase() !== chamber) return false;
+    if (state && trade.politician.state.toUpperCase() !== state) return false;
+    if (owners.length > 0 && !owners.includes(trade.transaction.owner)) return false;
+    if (!isSizeWithin(trade.transaction, minSize, maxSize)) return false;
+    return true;
+  };
+
+  return { params, matches };
+}
+
+/**
+ * Encode a resume position as an opaque cursor tied to the query that produced it
+ */
+function encodeCursor(offset: number, queryKey: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, q: queryKey })).toString("base64url");
+}
+
+/**
+ * Decode a cursor back into a result offset, rejecting cursors from a different query
+ */
+function decodeCursor(cursor: string, queryKey: string): number {
+  let decoded: { o?: unknown; q?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (typeof decoded?.o !== "number" || !Number.isInteger(decoded.o) || decoded.o < 0) {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded.q !== queryKey) {
+    throw new Error("cursor belongs to a different query; repeat the same filters and sort, or start over without a cursor");
+  }
+  return decoded.o;
+}
+
+/**
+ * Sort value of a trade for a sort field (null when the trade doesn't disclose it)
+ */
+function sortValue(trade: TradeWithPrice, sortBy: TradeSortField): string | number | null {
+  switch (sortBy) {
+    case "tradeDate":
+      return trade.dates.tradeDate;
+    case "disclosureDate":
+      return trade.dates.disclosureDate;
+    case "size":
+      return trade.transaction.midpoint;
+    case "reportingGap":
+      return trade.dates.reportingGapDays;
+  }
+}
+
+/**
+ * Sort trades by a field, keeping site order for ties and putting unknown values last
+ */
+function sortTrades(trades: TradeWithPrice[], sortBy: TradeSortField, sortDirection: "asc" | "desc"): TradeWithPrice[] {
+  const direction = sortDirection === "asc" ? 1 : -1;
+  return trades
+    .map((trade, position) => ({ trade, position, value: sortValue(trade, sortBy) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return a.value === b.value ? a.position - b.position : a.value === null ? 1 : -1;
       }
+      const order = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+      return order * direction || a.position - b.position;
+    })
+    .map(({ trade }) => trade);
+}
+
+/**
+ * Get politician trades with advanced filters
+ * Results come one page at a time: pass the returned nextCursor back to get the next page.
+ * Newest-first date order on the window's date field follows the site and stops scraping early;
+ * other sorts read the whole window first, up to SORTED_MAX_PAGES pages unless maxPages says otherwise.
+ * @param filters - Optional chamber, state, owner, size, asset type and sector filters
+ * @param paging - Optional cursor, sort field and sort direction (default: newest first)
+ */
+export async function getPoliticianTrades(
+  symbol: string | null,
+  politician: string | null,
+  party: string | null,
+  type: string[],
+  window: number | DateRangeOptions,
+  limit: number = 50,
+  maxPages?: number,
+  filters: TradeFilterOptions = {},
+  paging: TradePageOptions = {}
+) {
+  try {
+    const range = resolveDateRange(window);
+    const siteSortBy: TradeSortField = range.field === "disclosure" ? "disclosureDate" : "tradeDate";
+    const sortBy = paging.sortBy || siteSortBy;
+    const sortDirection = paging.sortDirection || "desc";
+    // Without a start date no page predates the window, so the scan is capped and reported as partial
+    const pageBudget = maxPages ?? (range.from ? undefined : OPEN_START_MAX_PAGES);
+
+    // Cursors are only valid for the query that issued them
+    const queryKey = createHash("sha256")
+      .update(JSON.stringify([symbol, politician, party, [...type].sort(), window, filters, sortBy, sortDirection]))
+      .digest("hex")
+      .slice(0, 16);
+    const offset = paging.cursor ? decodeCursor(paging.cursor, queryKey) : 0;
+    const baseUrl = `${getBaseUrl()}/trades`;
+    const params: string[] = [];
+
+    // Get issuer ID if symbol is provided
+    if (symbol) {
+      const issuerId = await getIssuerId(symbol);
+      params.push(`issuer=${issuerId}`);
     }
+
+    // Get politician ID if politician is provided
+    if (politician) {
+      const politicianId = await getPoliticianId(politician);
+      params.push(`politician=${politicianId}`);
+    }
+
+    // Add party filter if provided (not null)
+    if (party !== null) {
+      params.push(`party=${party.toLowerCase()}`);
+    }
+
+    // Add type filter(s) if not ALL
+    // If array has all 4 types OR is empty, treat as ALL (no filter)
+    const allTypes = ["BUY", "SELL", "RECEIVE", "EXCHANGE"];
+    const hasAllTypes = type.length === 4 && allTypes.every(t => type.includes(t));
+    const isAll = type.length === 0 || hasAllTypes;
     
-    // Process into categories
-    const consensus: any[] = [];
-    const democratFavorites: any[] = [];
-    const republicanFavorites: any[] = [];
-    
-    for (const [name, data] of assetMap.entries()) {
-      const demNet = data.democrats.buys - data.democrats.sells;
-      const repNet = data.republicans.buys - data.republicans.sells;
-      const demTotal = data.democrats.buys + data.democrats.sells;
-      const repTotal = data.republicans.buys + data.republicans.sells;
-      
-      // Consensus: both parties are net buyers and have significant activity
-      if (demNet > 0 && repNet > 0 && demTotal >= 2 && repTotal >= 2) {
-        consensus.push({
-          issuer: name,
-          ticker: data.ticker,
-          democrats: {
-            buys: data.democrats.buys,
-            sells: data.democrats.sells,
-            netBuys: demNet
-          },
-          republicans: {
-            buys: data.republicans.buys,
-            sells: data.republicans.sells,
-            netBuys: repNet
-          },
-          score: demNet + repNet // Total net buys across both parties
-        });
-      }
-      
-      // Democrat favorites: net buyers, more activity from Democrats
-      if (demNet > 0 && demTotal >= repTotal) {
-        democratFavorites.push({
-          issuer: name,
-          ticker: data.ticker,
-          democrats: {
-            buys: data.democrats.buys,
-            sells: data.democrats.sells,
-            netBuys: demNet
-          },
-          republicans: {
-            buys: data.republicans.buys,
-            sells: data.republicans.sells,
-            netBuys: repNet
-          },
-          score: demNet
-        });
-      }
-      
-      // Republican favorites: net buyers, more activity from Republicans
-      if (repNet > 0 && repTotal >= demTotal) {
-        republicanFavorites.push({
-          issuer: name,
-          ticker: data.ticker,
-          democrats: {
-            buys: data.democrats.buys,
-            sells: data.democrats.sells,
-            netBuys: demNet
-          },
-          republicans: {
-            buys: data.republicans.buys,
-            sells: data.republicans.sells,
-            netBuys: repNet
-          },
-          score: repNet
-        });
-      }
+    if (!isAll && type.length > 0) {
+      // Join types with comma for multiple filters
+      const typeParam = type.map(t => t.toLowerCase()).join(",");
+      params.push(`txType=${typeParam}`);
     }
+
+    // Add chamber, state, owner, size, asset type and sector filters
+    const extraFilters = buildTradeFilters(filters);
+    params.push(...extraFilters.params);
+
+    // Add date filter (the exact window is applied after fetching)
+    params.push(...buildDateRangeParams(range));
+
+    // Construct the full URL
+    const url = `${baseUrl}?${params.join("&")}`;
+    
+    logDebug(`Fetching politician trades from: ${url}`);
     
-    // Sort each category by score
-    consensus.sort((a, b) => b.score - a.score);
-    democratFavorites.sort((a, b) => b.score - a.score);
-    republicanFavorites.sort((a, b) => b.score - a.score);
+    let trades: TradeWithPrice[];
+    let coverage: TradeCoverage;
+    let hasMore: boolean;
+    if (sortBy === siteSortBy && sortDirection === "desc") {
+      // Site order: scrape just far enough to fill this page, noting whether more were available
+      const result = await scrapeTradePages(url, { limit: offset + limit, maxPages: pageBudget, range, filter: extraFilters.matches });
+      coverage = result.coverage;
+      hasMore = coverage.stopReason === "limit";
+      trades = result.trades.slice(offset);
+    } else {
+      // Any other order needs the whole window before it can be sorted, and the cursor is only an
+      // offset, so every page of results reads it again
+      const result = await scrapeTradePages(url, { maxPages: pageBudget ?? SORTED_MAX_PAGES, range, filter: extraFilters.matches });
+      coverage = result.coverage;
+      const sorted = sortTrades(result.trades, sortBy, sortDirection);
+      hasMore = offset + limit < sorted.length;
+      trades = sorted.slice(offset, offset + limit);
+    }
+    trades.forEach((trade, position) => {
+      trade.index = offset + position + 1;
+    });
     
     return {
-      limit,
-      days,
-      disclaimer: "This shows assets where politicians are net buyers. Not investment advice.",
-      consensus: consensus.slice(0, limit).map((asset, idx) => ({
-        rank: idx + 1,
-        ...asset
-      })),
-      democratFavorites: democratFavorites.slice(0, limit).map((asset, idx) => ({
-        rank: idx + 1,
-        ...asset
-      })),
-      republicanFavorites: republicanFavorites.slice(0, limit).map((asset, idx) => ({
-        rank: idx + 1,
-        ...asset
-      }))
+      filters: {
+        symbol: symbol || null,
+        politician: politician || null,
+        party: party || "ALL",
+        type: type.length === 0 || hasAllTypes ? "ALL" : type,
+        ...filters,
+        ...describeRange(range),
+      },
+      sort: { sortBy, sortDirection },
+      offset,
+      totalTrades: trades.length,
+      nextCursor: hasMore ? encodeCursor(offset + trades.length, queryKey) : null,
+      coverage,
+      trades,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to get party buy momentum: ${errorMessage}`);
+    throw new Error(`Failed to get politician trades: ${errorMessage}`);
   }
 }
-
@@ -0,0 +1,248 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { IsoDate } from "./types.js";
+import { daysBetween } from "./dates.js";
+import { getDataDir } from "./trade-store.js";
+import { logDebug } from "./logger.js";
+
+/**
+ * Daily price history read from local files
+ * Capitol Trades doesn't publish prices, so returns are computed from OHLC files you supply:
+ * one file per ticker in the price directory, named after the ticker (e.g., NVDA.csv, SPY.json)
+ * - CSV: a header row with date and close columns (open, high, low, adj close and volume are optional),
+ *   as exported by most charting sites
+ * - JSON: an array of { date, open, high, low, close, adjClose } objects
+ */
+
+/**
+ * One trading day
+ */
+export interface PriceBar {
+  date: IsoDate;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  // Close adjusted for splits and dividends, when the file has it
+  adjClose: number | null;
+}
+
+/**
+ * A ticker's bars, oldest first
+ */
+export interface PriceSeries {
+  ticker: string;
+  source: string;
+  bars: PriceBar[];
+}
+
+/**
+ * A price looked up for a date, with the trading day it came from
+ */
+export interface PricePoint {
+  date: IsoDate;
+  price: number;
+}
+
+const PRICE_FILE_EXTENSIONS = [".csv", ".json"];
+
+// A lookup falls on the next trading day; a longer gap means the file is missing data
+const MAX_BAR_GAP_DAYS = 5;
+
+const seriesCache = new Map<string, { mtimeMs: number; series: PriceSeries }>();
+
+/**
+ * Directory holding the price files
+ * Override with CAPITOL_TRADES_PRICE_DIR (default: prices in the data directory)
+ */
+export function getPriceDir(): string {
+  return process.env.CAPITOL_TRADES_PRICE_DIR || path.join(getDataDir(), "prices");
+}
+
+/**
+ * The file name a Capitol Trades ticker is looked up under (e.g., "NVDA:US" -> "NVDA")
+ * @returns null when the trade has no ticker (e.g., bonds and private funds)
+ */
+export function priceTicker(ticker: string | null | undefined): string | null {
+  const symbol = (ticker || "").replace(/:[A-Z]+$/i, "").trim().toUpperCase();
+  return symbol && symbol !== "N/A" ? symbol : null;
+}
+
+function parsePrice(value: unknown): number | null {
+  if (value === null || value === undefined || value === "" || value === "null") {
+    return null;
+  }
+  const price = typeof value === "number" ? value : Number(String(value).replace(/[$,]/g, ""));
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * Validate raw rows into bars sorted by date; rows without a close (e.g., "null" on holidays) are skipped
+ * and a repeated date keeps its last row
+ */
+function toBars(rows: Array<Record<string, unknown>>): PriceBar[] {
+  const byDate = new Map<IsoDate, PriceBar>();
+  rows.forEach((row, index) => {
+    const date = String(row.date ?? "").trim().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      throw new Error(`row ${index + 1}: date must be YYYY-MM-DD (got "${row.date ?? ""}")`);
+    }
+    const close = parsePrice(row.close);
+    if (close === null) {
+      return;
+    }
+    byDate.set(date, {
+      date,
+      open: parsePrice(row.open),
+      high: parsePrice(row.high),
+      low: parsePrice(row.low),
+      close,
+      adjClose: parsePrice(row.adjClose),
+    });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Map a CSV header to a bar field (e.g., "Adj Close" -> adjClose)
+ */
+function headerField(header: string): string {
+  const key = header.trim().toLowerCase().replace(/[^a-z]/g, "");
+  if (key === "adjclose" || key === "adjustedclose") {
+    return "adjClose";
+  }
+  if (key === "timestamp" || key === "day") {
+    return "date";
+  }
+  return key;
+}
+
+/**
+ * Parse CSV price history
+ * @param text - CSV with a header row naming at least the date and close columns
+ */
+export function parsePriceCsv(text: string): PriceBar[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new Error("file is empty");
+  }
+  const headers = lines[0].split(",").map((header) => headerField(header.replace(/^"|"$/g, "")));
+  if (!headers.includes("date") || !headers.includes("close")) {
+    throw new Error("header row must name date and close columns");
+  }
+  const rows = lines.slice(1).map((line) => {
+    const cells = line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    return Object.fromEntries(headers.map((header, column) => [header, cells[column]]));
+  });
+  return toBars(rows);
+}
+
+/**
+ * Parse JSON price history: an array of { date, open, high, low, close, adjClose } objects
+ */
+export function parsePriceJson(raw: unknown): PriceBar[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("expected an array of { date, close } objects");
+  }
+  return toBars(raw);
+}
+
+/**
+ * Find a ticker's price file, matching the file name case-insensitively
+ */
+async function findPriceFile(symbol: string): Promise<string | null> {
+  const priceDir = getPriceDir();
+  let files: string[];
+  try {
+    files = await fs.readdir(priceDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+  const match = files.find((file) => {
+    const extension = path.extname(file).toLowerCase();
+    return PRICE_FILE_EXTENSIONS.includes(extension) && path.basename(file, path.extname(file)).toUpperCase() === symbol;
+  });
+  return match ? path.join(priceDir, match) : null;
+}
+
+/**
+ * Load a ticker's price history from the price directory
+ * Files are re-read when they change on disk
+ * @param ticker - Ticker as Capitol Trades shows it or plain (e.g., "NVDA:US", "SPY")
+ * @returns The series, or null when there is no file for the ticker
+ */
+export async function loadPriceSeries(ticker: string): Promise<PriceSeries | null> {
+  const symbol = priceTicker(ticker);
+  if (!symbol) {
+    return null;
+  }
+  const filePath = await findPriceFile(symbol);
+  if (!filePath) {
+    logDebug(`No price file for ${symbol} in ${getPriceDir()}`);
+    return null;
+  }
+
+  try {
+    const { mtimeMs } = await fs.stat(filePath);
+    const cached = seriesCache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.series;
+    }
+
+    const text = await fs.readFile(filePath, "utf8");
+    const bars = path.extname(filePath).toLowerCase() === ".json" ? parsePriceJson(JSON.parse(text)) : parsePriceCsv(text);
+    const series = { ticker: symbol, source: filePath, bars };
+    seriesCache.set(filePath, { mtimeMs, series });
+    logDebug(`Loaded ${bars.length} price bars for ${symbol} from ${filePath}`);
+    return series;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load price history ${filePath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Index of the first bar on or after a date (bars.length if there is none)
+ */
+function firstBarOnOrAfter(series: PriceSeries, date: IsoDate): number {
+  let low = 0;
+  let high = series.bars.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (series.bars[middle].date < date) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Price on a date, or on the next trading day when the market was closed
+ * Uses the adjusted close when the file has one
+ * @returns null when the series has no bar within a few days on or after the date
+ */
+export function priceOnOrAfter(series: PriceSeries, date: IsoDate): PricePoint | null {
+  const bar = series.bars[firstBarOnOrAfter(series, date)];
+  if (!bar || daysBetween(date, bar.date) > MAX_BAR_GAP_DAYS) {
+    return null;
+  }
+  return { date: bar.date, price: bar.adjClose ?? bar.close };
+}
+
+/**
+ * Latest price on or before a date, for valuing a position held through days the file has no bar for
+ * @returns null when the series starts after the date or its last bar is more than a few days old
+ */
+export function priceOnOrBefore(series: PriceSeries, date: IsoDate): PricePoint | null {
+  const index = firstBarOnOrAfter(series, date);
+  const bar = series.bars[index]?.date === date ? series.bars[index] : series.bars[index - 1];
+  if (!bar || daysBetween(bar.date, date) > MAX_BAR_GAP_DAYS) {
+    return null;
+  }
+  return { date: bar.date, price: bar.adjClose ?? bar.close };
+}
@@ -0,0 +1,141 @@
+import * as cheerio from "cheerio";
+import { IsoDate, IssuerProfile, PoliticianProfile } from "./types.js";
+import { getBaseUrl } from "./config.js";
+import { fetchHtml } from "./http-client.js";
+import { parseDisplayNumber, readLabeledFields } from "./html-helpers.js";
+import { parseDisplayDate } from "./dates.js";
+
+/**
+ * Scrapers for the politician and issuer profile pages
+ * These take IDs; resolve names with getPoliticianId/getIssuerId first
+ */
+
+/**
+ * Read the first field present under any of the given labels
+ */
+function firstField(fields: Map<string, string>, labels: string[]): string | null {
+  for (const label of labels) {
+    const value = fields.get(label);
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function parseProfileDate(text: string | null): IsoDate | null {
+  if (!text) {
+    return null;
+  }
+  const iso = text.match(/\d{4}-\d{2}-\d{2}/);
+  return iso ? iso[0] : parseDisplayDate(text);
+}
+
+/**
+ * Whole years served from a span such as "1987 - Present" or "2013 - 2021"
+ */
+function yearsServed(text: string | null, now: Date = new Date()): number | null {
+  const years = text?.match(/\d{4}/g);
+  if (!years) {
+    return null;
+  }
+  const start = parseInt(years[0], 10);
+  const end = years.length > 1 ? parseInt(years[years.length - 1], 10) : now.getUTCFullYear();
+  return Math.max(0, end - start);
+}
+
+/**
+ * Committee assignments: the items of a committees list, or of the list under a "Committees" heading
+ * Names are kept whole (e.g., "Agriculture, Nutrition, and Forestry")
+ */
+function readCommittees($: cheerio.CheerioAPI, $main: cheerio.Cheerio<any>): string[] {
+  let items = $main.find(".committees li, .politician-committees li");
+  if (items.length === 0) {
+    const heading = $main
+      .find("h2, h3, h4")
+      .filter((_, element) => /committee/i.test($(element).text()))
+      .first();
+    items = heading.nextAll("ul, ol").first().find("li");
+  }
+  const committees = items.map((_, element) => $(element).text().replace(/\s+/g, " ").trim()).get();
+  return Array.from(new Set(committees.filter(Boolean)));
+}
+
+/**
+ * Scrape a politician's /politicians/{id} page
+ * @param politicianId - Capitol Trades politician ID (e.g., "P000197")
+ * @returns Biography and the site's reported trading totals (fields the page doesn't show are null)
+ */
+export async function scrapePoliticianProfile(politicianId: string): Promise<PoliticianProfile> {
+  const profileUrl = `${getBaseUrl()}/politicians/${encodeURIComponent(politicianId)}`;
+
+  try {
+    const $ = cheerio.load(await fetchHtml(profileUrl));
+    const $main = $("main").length ? $("main") : $("body");
+    const fields = readLabeledFields($, $main);
+    const yearsActive = firstField(fields, ["years active", "years in office", "in office"]);
+    const totalVolume = firstField(fields, ["volume", "trade volume", "total volume"]);
+
+    return {
+      id: politicianId,
+      name: $main.find("h1").first().text().trim() || $("title").text().split("|")[0].trim(),
+      party: $main.find(".party").first().text().trim(),
+      chamber: $main.find(".chamber").first().text().trim(),
+      state: $main.find(".us-state-full, .us-state-compact").first().text().trim(),
+      profileUrl,
+      district: firstField(fields, ["district"]),
+      yearsActive,
+      yearsInOffice: yearsServed(yearsActive),
+      dateOfBirth: parseProfileDate(firstField(fields, ["date of birth", "born", "dob"])),
+      totalTrades: parseDisplayNumber(firstField(fields, ["trades"])),
+      issuersTraded: parseDisplayNumber(firstField(fields, ["issuers"])),
+      totalVolume,
+      estimatedTotalVolume: parseDisplayNumber(totalVolume),
+      lastTraded: parseProfileDate(firstField(fields, ["last traded", "last trade"])),
+      committees: readCommittees($, $main),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to scrape politician profile ${politicianId}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Scrape an issuer's /issuers/{id} page
+ * @param issuerId - Capitol Trades issuer ID (e.g., "435544")
+ * @returns Sector, industry, country, market cap and aggregate politician activity
+ *          (fields the page doesn't show are null)
+ */
+export async function scrapeIssuerProfile(issuerId: string): Promise<IssuerProfile> {
+  const profileUrl = `${getBaseUrl()}/issuers/${encodeURIComponent(issuerId)}`;
+
+  try {
+    const $ = cheerio.load(await fetchHtml(profileUrl));
+    const $main = $("main").length ? $("main") : $("body");
+    const fields = readLabeledFields($, $main);
+    const ticker = $main.find(".issuer-ticker").first().text().trim();
+    const marketCap = firstField(fields, ["market cap", "market capitalization", "mcap"]);
+    const totalVolume = firstField(fields, ["volume", "trade volume", "total volume"]);
+
+    return {
+      id: issuerId,
+      name: $main.find("h1").first().text().trim() || $("title").text().split("|")[0].trim(),
+      ticker,
+      sector: firstField(fields, ["sector"]),
+      country: firstField(fields, ["country"]),
+      profileUrl,
+      industry: firstField(fields, ["industry"]),
+      marketCap,
+      estimatedMarketCap: parseDisplayNumber(marketCap),
+      sharePrice: parseDisplayNumber(firstField(fields, ["price", "last price", "share price"])),
+      totalTrades: parseDisplayNumber(firstField(fields, ["trades"])),
+      politiciansTrading: parseDisplayNumber(firstField(fields, ["politicians"])),
+      totalVolume,
+      estimatedTotalVolume: parseDisplayNumber(totalVolume),
+      lastTraded: parseProfileDate(firstField(fields, ["last traded", "last trade"])),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to scrape issuer profile ${issuerId}: ${errorMessage}`);
+  }
+}
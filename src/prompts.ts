@@ -0,0 +1,142 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * MCP prompt templates for common analyst workflows
+ * Each prompt walks the model through the server's tools in a fixed order so repeated
+ * analyses come out consistent
+ */
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "politician_trading_profile",
+    description: "Profile a member of Congress's trading: who they are, what they trade, how large, who owns it and how promptly they disclose",
+    arguments: [
+      { name: "politician", description: "Politician name or ID (e.g., 'Nancy Pelosi', 'P000197')", required: true },
+      { name: "days", description: "Look-back window in days (default: 365)", required: false },
+    ],
+  },
+  {
+    name: "unusual_ticker_activity",
+    description: "Check whether recent congressional trading in a ticker is unusual compared with its longer-run baseline",
+    arguments: [
+      { name: "symbol", description: "Ticker, company name or issuer ID (e.g., 'NVDA')", required: true },
+      { name: "days", description: "Recent window in days to test (default: 30)", required: false },
+    ],
+  },
+  {
+    name: "weekly_trading_digest",
+    description: "Summarize newly disclosed congressional trades: biggest trades, most traded assets, buy momentum and party positioning",
+    arguments: [
+      { name: "days", description: "Disclosure window in days (default: 7)", required: false },
+    ],
+  },
+];
+
+/**
+ * Read a whole-number day window argument
+ */
+function getDaysArg(args: Record<string, string>, fallback: number): number {
+  if (args.days === undefined || args.days === "") {
+    return fallback;
+  }
+  const days = Number(args.days);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error("days must be a positive whole number");
+  }
+  return days;
+}
+
+function getRequiredArg(args: Record<string, string>, name: string, prompt: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new Error(`${prompt} requires the "${name}" argument`);
+  }
+  return value;
+}
+
+// Shared closing instructions so every workflow reports its limits the same way
+const REPORTING_RULES = `Reporting rules:
+- Quote dollar figures as estimates: they are midpoints of disclosed size ranges.
+- If any result has coverage.complete = false, say which numbers may be incomplete and why (coverage.stopReason).
+- If a name is ambiguous, call the matching search tool, pick the intended match by ID, and say which one you used.`;
+
+function politicianTradingProfile(args: Record<string, string>): string {
+  const politician = getRequiredArg(args, "politician", "politician_trading_profile");
+  const days = getDaysArg(args, 365);
+  return `Profile the trading of ${politician} over the last ${days} days. Work through these steps in order:
+
+1. Call get_politician_profile with politician "${politician}" for their party, chamber, state, district, years in office and the site's lifetime totals.
+2. Call get_politician_stats with politician "${politician}" and days ${days}. Note total trades, buys vs sells, estimated buy and sell volume, the dollar-weighted buy/sell ratio and most traded assets.
+3. Call get_politician_trades with politician "${politician}", days ${days}, sortBy "size" and limit 10 to find their largest trades.
+4. For the three largest trades, call get_trade_detail with each trade's detailUrl to see who owned the asset (self, spouse, child or joint), the asset type and any comment.
+5. Call get_politician_trades with politician "${politician}", days ${days}, sortBy "reportingGap" and limit 5 to find their slowest disclosures.
+
+Then write a profile with these sections: Who they are; Activity summary; Largest positions and who owns them; Sector and asset concentration; Disclosure timeliness (flag any gap over 45 days); Notable observations.
+
+${REPORTING_RULES}`;
+}
+
+function unusualTickerActivity(args: Record<string, string>): string {
+  const symbol = getRequiredArg(args, "symbol", "unusual_ticker_activity");
+  const days = getDaysArg(args, 30);
+  return `Decide whether congressional trading in ${symbol} over the last ${days} days is unusual. Work through these steps in order:
+
+1. Call search_issuers with query "${symbol}" and confirm which issuer and share class is meant.
+2. Call get_issuer_profile with symbol "${symbol}" for its sector, industry, market cap and the site's aggregate politician activity.
+3. Call get_asset_stats with symbol "${symbol}" and days ${days} for the recent window.
+4. Call get_asset_stats with symbol "${symbol}" and days 365 for the baseline.
+5. Call get_politician_trades with symbol "${symbol}", days ${days}, sortBy "tradeDate" and limit 50 to see who traded and when.
+
+Compare the recent window with the baseline on a per-day basis: trade count, estimated buy and sell volume, and number of distinct politicians. Look for clusters of members trading in the same direction within a few days, members from both parties, unusually large sizes, and trades by members whose committees oversee the company's industry.
+
+Finish with a verdict (Unusual / Somewhat elevated / Normal), the evidence for it, and the specific trades that drove it.
+
+${REPORTING_RULES}`;
+}
+
+function weeklyTradingDigest(args: Record<string, string>): string {
+  const days = getDaysArg(args, 7);
+  return `Write a digest of congressional trades disclosed in the last ${days} days. Work through these steps in order:
+
+1. Call get_politician_trades with days ${days}, dateField "disclosure", sortBy "size" and limit 25 for the largest newly disclosed trades.
+2. Call get_top_traded_assets with days ${days} and dateField "disclosure" for the most traded assets.
+3. Call get_buy_momentum_assets with days ${days} and dateField "disclosure" for assets politicians are net buying.
+4. Call get_party_buy_momentum with days ${days} and dateField "disclosure" for Democrat, Republican and consensus favorites.
+
+Then write the digest with these sections: Headline (one or two sentences); Biggest trades (politician, asset, direction, size, owner if known); Most traded assets; Buy momentum; Party positioning, including consensus picks; Late filers (trades disclosed more than 45 days after they happened).
+
+${REPORTING_RULES}`;
+}
+
+const PROMPT_BUILDERS: Record<string, (args: Record<string, string>) => string> = {
+  politician_trading_profile: politicianTradingProfile,
+  unusual_ticker_activity: unusualTickerActivity,
+  weekly_trading_digest: weeklyTradingDigest,
+};
+
+/**
+ * Fill in a prompt template
+ * @param name - Prompt name from PROMPTS
+ * @param args - Prompt arguments (MCP passes them as strings)
+ * @returns A single user message with the workflow instructions
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const build = PROMPT_BUILDERS[name];
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+  if (!build || !prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: build(args),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,109 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { getAssetStats, getIssuerId, getPoliticianId, getPoliticianStats, getPoliticianTrades } from "./politician-trades-scraper.js";
+
+/**
+ * MCP resources backed by the scraper, so clients can attach trading activity as context
+ * without a tool call. {id} accepts the same names, tickers and IDs as the tools.
+ */
+
+const URI_SCHEME = "capitoltrades://";
+const MIME_TYPE = "application/json";
+
+// Window and size of the trade listings resources return
+const RESOURCE_WINDOW_DAYS = 90;
+const RESOURCE_TRADE_LIMIT = 100;
+const LATEST_WINDOW_DAYS = 30;
+const LATEST_TRADE_LIMIT = 50;
+
+/**
+ * Resources with fixed URIs
+ */
+export const RESOURCES: Resource[] = [
+  {
+    uri: `${URI_SCHEME}trades/latest`,
+    name: "Latest politician trades",
+    description: `The ${LATEST_TRADE_LIMIT} most recently disclosed trades from the last ${LATEST_WINDOW_DAYS} days`,
+    mimeType: MIME_TYPE,
+  },
+];
+
+/**
+ * Parameterized resources; {id} is a politician or issuer name, ticker or Capitol Trades ID
+ */
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${URI_SCHEME}politician/{id}/trades`,
+    name: "Politician trades",
+    description: `A politician's trades over the last ${RESOURCE_WINDOW_DAYS} days (id: name or ID, e.g. P000197)`,
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}politician/{id}/stats`,
+    name: "Politician stats",
+    description: `A politician's trading statistics over the last ${RESOURCE_WINDOW_DAYS} days (id: name or ID, e.g. P000197)`,
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}issuer/{id}/trades`,
+    name: "Issuer trades",
+    description: `Politician trades in an issuer over the last ${RESOURCE_WINDOW_DAYS} days (id: ticker, name or issuer ID, e.g. NVDA)`,
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}issuer/{id}/stats`,
+    name: "Issuer stats",
+    description: `Politician trading statistics for an issuer over the last ${RESOURCE_WINDOW_DAYS} days (id: ticker, name or issuer ID, e.g. NVDA)`,
+    mimeType: MIME_TYPE,
+  },
+];
+
+/**
+ * Fetch the data behind a resource URI
+ */
+async function loadResource(uri: string): Promise<unknown> {
+  if (uri === `${URI_SCHEME}trades/latest`) {
+    return getPoliticianTrades(null, null, null, [], { days: LATEST_WINDOW_DAYS, dateField: "disclosure" }, LATEST_TRADE_LIMIT);
+  }
+
+  const match = uri.match(/^capitoltrades:\/\/(politician|issuer)\/([^/?#]+)\/(trades|stats)$/);
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  const [, kind, encodedId, view] = match;
+  const query = decodeURIComponent(encodedId);
+
+  if (kind === "politician") {
+    const politicianId = await getPoliticianId(query);
+    return view === "trades"
+      ? getPoliticianTrades(null, politicianId, null, [], RESOURCE_WINDOW_DAYS, RESOURCE_TRADE_LIMIT)
+      : getPoliticianStats(politicianId, RESOURCE_WINDOW_DAYS);
+  }
+
+  const issuerId = await getIssuerId(query);
+  return view === "trades"
+    ? getPoliticianTrades(issuerId, null, null, [], RESOURCE_WINDOW_DAYS, RESOURCE_TRADE_LIMIT)
+    : getAssetStats(issuerId, RESOURCE_WINDOW_DAYS);
+}
+
+/**
+ * Read a resource by URI
+ * @param uri - A fixed resource URI or a template URI with {id} filled in (URL-encoded if it has spaces)
+ * @returns The resource contents as JSON text
+ */
+export async function readResource(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  try {
+    const data = await loadResource(uri);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read resource ${uri}: ${errorMessage}`);
+  }
+}
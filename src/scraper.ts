@@ -8,4 +8,39 @@ export { scrapeWebPage, extractLinks, extractText, findLink } from "./web-scrape
 export type { ScrapedData, LinkData } from "./web-scraper.js";
 
 // Export politician trades scraper
-export { scrapePoliticianTrades, getIssuerId, getPoliticianId, getTopTradedAssets, getPoliticianStats, getAssetStats, getBuyMomentumAssets, getPartyBuyMomentum } from "./politician-trades-scraper.js";
+export { scrapePoliticianTrades, scrapeTradePages, getIssuerId, getPoliticianId, searchIssuers, searchPoliticians, getTopTradedAssets, getPoliticianProfile, getPoliticianStats, getIssuerProfile, getAssetStats, getBuyMomentumAssets, getPartyBuyMomentum, rankBuyMomentumAssets, rankPartyBuyMomentum, getPoliticianTrades, getTradesInRange, syncTradeStore } from "./politician-trades-scraper.js";
+
+// Export trade detail scraper
+export { getTradeDetail } from "./trade-detail-scraper.js";
+
+// Export local trade store
+export { loadTradeStore, queryTrades, isStoreComplete, getDataDir, tradeKey } from "./trade-store.js";
+export type { StoredTrade, TradeStoreData, TradeQuery } from "./trade-store.js";
+
+// Export trade file writer
+export { exportTrades, flattenTrade } from "./trade-export.js";
+export type { ExportFormat } from "./trade-export.js";
+
+// Export watchlists
+export { addToWatchlist, removeFromWatchlist, listWatchlists, checkWatchlist } from "./watchlist.js";
+export type { WatchlistEntry, WatchlistSummary } from "./watchlist.js";
+
+// Export watchlist notifications
+export { loadNotificationConfig, parseNotificationConfig, deliverNotification, runNotificationCycle, startNotificationPolling } from "./notifier.js";
+export type { NotificationConfig, NotificationTarget, TradeNotification, DeadLetter } from "./notifier.js";
+
+// Export price history and post-trade returns
+export { loadPriceSeries, parsePriceCsv, parsePriceJson, priceOnOrAfter, getPriceDir } from "./price-history.js";
+export type { PriceBar, PriceSeries, PricePoint } from "./price-history.js";
+export { getTradePerformance, RETURN_HORIZONS } from "./trade-performance.js";
+export type { AnchoredReturns, HorizonSummary } from "./trade-performance.js";
+
+// Export copy-trading backtests
+export { runBacktest } from "./backtest.js";
+export type { BacktestOptions, BacktestStrategy } from "./backtest.js";
+
+// Export STOCK Act late-filing checks
+export { getLateDisclosures, STOCK_ACT_DEADLINE_DAYS } from "./late-disclosures.js";
+
+// Export coordinated-trading clusters
+export { findTradeClusters } from "./trade-clusters.js";
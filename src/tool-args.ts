@@ -0,0 +1,195 @@
+import { TradeFilterOptions, TradePageOptions, TradeSortField } from "./types.js";
+import { DateField, DateRangeOptions, resolveDateRange } from "./dates.js";
+
+/**
+ * Validation for tool arguments, shared by the MCP tools and the command line
+ * Each helper checks the raw arguments and throws a message naming the bad argument
+ */
+
+/**
+ * Validate the symbol, politician, party and type arguments of trade listings
+ */
+export function getTradeQueryArgs(args: Record<string, unknown>) {
+  const symbol = (args.symbol as string | null) || null;
+  const politician = (args.politician as string | null) || null;
+  // Normalize party: undefined or null both become null
+  const party = args.party === undefined || args.party === null ? null : (args.party as string);
+  const type = (args.type as string[]) || [];
+
+  // Validate party - must be DEMOCRAT, REPUBLICAN, or null (treated as ALL)
+  if (party !== null && party !== "DEMOCRAT" && party !== "REPUBLICAN") {
+    throw new Error(`party must be 'DEMOCRAT' or 'REPUBLICAN'`);
+  }
+
+  // Validate type array - must be array of strings
+  if (!Array.isArray(type)) {
+    throw new Error("type must be an array of strings");
+  }
+
+  // Validate each type in the array
+  const allowedTypeValues = ["BUY", "SELL", "RECEIVE", "EXCHANGE"];
+  for (const t of type) {
+    if (!allowedTypeValues.includes(t)) {
+      throw new Error(`Each type must be one of: ${allowedTypeValues.join(', ')}`);
+    }
+  }
+
+  return { symbol, politician, party, type };
+}
+
+/**
+ * Validate and collect the date window arguments shared by every tool
+ */
+export function getDateRangeArgs(args: Record<string, unknown>): DateRangeOptions {
+  const days = args.days === undefined || args.days === null ? undefined : (args.days as number);
+  if (days !== undefined && (!Number.isInteger(days) || days < 1)) {
+    throw new Error("days must be a positive whole number");
+  }
+
+  const dateField = (args.dateField as DateField | undefined) || "trade";
+  if (dateField !== "trade" && dateField !== "disclosure") {
+    throw new Error("dateField must be 'trade' or 'disclosure'");
+  }
+
+  const window: DateRangeOptions = { days, dateField };
+  for (const key of ["from", "to", "period"] as const) {
+    const value = args[key];
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    if (typeof value !== "string") {
+      throw new Error(`${key} must be a string`);
+    }
+    window[key] = value;
+  }
+
+  // Resolve once up front so invalid dates fail before any scraping
+  resolveDateRange(window);
+  return window;
+}
+
+/**
+ * Validate and collect the chamber, state, owner, size, asset type and sector filters
+ */
+export function getTradeFilterArgs(args: Record<string, unknown>): TradeFilterOptions {
+  const filters: TradeFilterOptions = {};
+
+  if (args.chamber !== undefined && args.chamber !== null) {
+    if (args.chamber !== "HOUSE" && args.chamber !== "SENATE") {
+      throw new Error("chamber must be 'HOUSE' or 'SENATE'");
+    }
+    filters.chamber = args.chamber;
+  }
+
+  if (args.state !== undefined && args.state !== null && args.state !== "") {
+    if (typeof args.state !== "string" || !/^[A-Za-z]{2}$/.test(args.state.trim())) {
+      throw new Error("state must be a two-letter state code (e.g., 'TX')");
+    }
+    filters.state = args.state.trim().toUpperCase();
+  }
+
+  for (const key of ["minSize", "maxSize"] as const) {
+    const value = args[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${key} must be a non-negative number of dollars`);
+    }
+    filters[key] = value;
+  }
+  if (filters.minSize !== undefined && filters.maxSize !== undefined && filters.minSize > filters.maxSize) {
+    throw new Error("minSize must not be greater than maxSize");
+  }
+
+  const allowedOwners = ["SELF", "SPOUSE", "CHILD", "JOINT"];
+  for (const key of ["owner", "assetType", "sector"] as const) {
+    const value = args[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item.trim())) {
+      throw new Error(`${key} must be an array of strings`);
+    }
+    if (key === "owner" && value.some((item) => !allowedOwners.includes(item))) {
+      throw new Error(`Each owner must be one of: ${allowedOwners.join(", ")}`);
+    }
+    if (value.length > 0) {
+      filters[key] = value;
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Validate the cursor and sort arguments for trade listings
+ */
+export function getTradePageArgs(args: Record<string, unknown>): TradePageOptions {
+  const paging: TradePageOptions = {};
+
+  if (args.cursor !== undefined && args.cursor !== null && args.cursor !== "") {
+    if (typeof args.cursor !== "string") {
+      throw new Error("cursor must be a string");
+    }
+    paging.cursor = args.cursor;
+  }
+
+  if (args.sortBy !== undefined && args.sortBy !== null) {
+    const allowedSorts: TradeSortField[] = ["tradeDate", "disclosureDate", "size", "reportingGap"];
+    if (!allowedSorts.includes(args.sortBy as TradeSortField)) {
+      throw new Error(`sortBy must be one of: ${allowedSorts.join(", ")}`);
+    }
+    paging.sortBy = args.sortBy as TradeSortField;
+  }
+
+  if (args.sortDirection !== undefined && args.sortDirection !== null) {
+    if (args.sortDirection !== "asc" && args.sortDirection !== "desc") {
+      throw new Error("sortDirection must be 'asc' or 'desc'");
+    }
+    paging.sortDirection = args.sortDirection;
+  }
+
+  return paging;
+}
+
+/**
+ * Validate an optional list of non-empty strings
+ */
+export function getStringListArg(args: Record<string, unknown>, key: string): string[] {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item.trim())) {
+    throw new Error(`${key} must be an array of strings`);
+  }
+  return value.map((item: string) => item.trim());
+}
+
+/**
+ * Validate the watchlist name argument
+ */
+export function getWatchlistNameArg(args: Record<string, unknown>): string {
+  if (args.name === undefined || args.name === null || args.name === "") {
+    return "default";
+  }
+  if (typeof args.name !== "string" || !args.name.trim()) {
+    throw new Error("name must be a non-empty string");
+  }
+  return args.name.trim();
+}
+
+/**
+ * Validate the optional page budget argument
+ */
+export function getMaxPagesArg(args: Record<string, unknown>): number | undefined {
+  if (args.maxPages === undefined || args.maxPages === null) {
+    return undefined;
+  }
+  const maxPages = args.maxPages as number;
+  if (!Number.isInteger(maxPages) || maxPages < 1) {
+    throw new Error("maxPages must be a positive whole number");
+  }
+  return maxPages;
+}
@@ -0,0 +1,175 @@
+import { IsoDate, TradeWithPrice } from "./types.js";
+import { DateRangeOptions, daysBetween, resolveDateRange } from "./dates.js";
+import { describeRange, getIssuerId, getTradesInRange } from "./politician-trades-scraper.js";
+import { scrapePoliticianProfile } from "./profile-scraper.js";
+import { logDebug } from "./logger.js";
+
+/**
+ * Coordinated-trading detection: distinct politicians trading the same issuer in the same
+ * direction within a few days of each other
+ * Clusters are found per issuer and direction by trade date: starting from the earliest trade,
+ * every trade within windowDays joins the cluster, and the next cluster starts after it
+ */
+
+interface DatedTrade {
+  trade: TradeWithPrice;
+  date: IsoDate;
+}
+
+/**
+ * Split one issuer's same-direction trades (oldest first) into clusters of at least minPoliticians members
+ */
+function clusterTrades(trades: DatedTrade[], windowDays: number, minPoliticians: number): DatedTrade[][] {
+  const clusters: DatedTrade[][] = [];
+  let start = 0;
+  while (start < trades.length) {
+    let end = start;
+    while (end + 1 < trades.length && daysBetween(trades[start].date, trades[end + 1].date) <= windowDays) {
+      end++;
+    }
+    const members = new Set(trades.slice(start, end + 1).map(({ trade }) => trade.politician.id || trade.politician.name));
+    if (members.size >= minPoliticians) {
+      clusters.push(trades.slice(start, end + 1));
+      start = end + 1;
+    } else {
+      start++;
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Find groups of distinct politicians trading the same issuer in the same direction within windowDays
+ * Reports each cluster's members with their parties and committees, and the spread between their trades
+ * @param symbol - Optional ticker, company name or issuer ID to restrict to
+ * @param windowDays - Maximum days from a cluster's first trade to its last (default: 7)
+ * @param minPoliticians - Distinct politicians a cluster needs (default: 2)
+ * @param limit - Maximum number of clusters to return (default: 20)
+ * @param includeCommittees - Look up members' committees on their profile pages (one request per member)
+ */
+export async function findTradeClusters(
+  symbol: string | null,
+  window: number | DateRangeOptions,
+  windowDays: number = 7,
+  minPoliticians: number = 2,
+  limit: number = 20,
+  maxPages?: number,
+  includeCommittees: boolean = true
+) {
+  try {
+    const range = resolveDateRange(window);
+    const issuerId = symbol ? await getIssuerId(symbol) : undefined;
+    const { trades, coverage } = await getTradesInRange(range, issuerId ? { issuerId } : {}, maxPages);
+
+    // Group buys and sells by issuer and direction, oldest trade first
+    const groups = new Map<string, DatedTrade[]>();
+    for (const trade of trades) {
+      const direction = trade.transaction.type?.toLowerCase();
+      const date = trade.dates.tradeDate;
+      if ((direction !== "buy" && direction !== "sell") || !date) {
+        continue;
+      }
+      const key = `${trade.issuer.id || trade.issuer.name}|${direction}`;
+      groups.set(key, [...(groups.get(key) || []), { trade, date }]);
+    }
+
+    const allClusters = Array.from(groups.values())
+      .flatMap((group) => clusterTrades([...group].sort((a, b) => a.date.localeCompare(b.date)), windowDays, minPoliticians))
+      .map((cluster) => {
+        const first = cluster[0];
+        const last = cluster[cluster.length - 1];
+        const members = new Map<string, { politician: TradeWithPrice["politician"]; trades: number; firstTradeDate: IsoDate }>();
+        for (const { trade, date } of cluster) {
+          const key = trade.politician.id || trade.politician.name;
+          const member = members.get(key);
+          if (member) {
+            member.trades++;
+          } else {
+            members.set(key, { politician: trade.politician, trades: 1, firstTradeDate: date });
+          }
+        }
+        const parties: Record<string, number> = {};
+        for (const { politician } of members.values()) {
+          const party = politician.party || "Unknown";
+          parties[party] = (parties[party] || 0) + 1;
+        }
+        return {
+          issuer: first.trade.issuer,
+          direction: first.trade.transaction.type.toLowerCase(),
+          politicianCount: members.size,
+          parties,
+          bipartisan: Object.keys(parties).filter((party) => party !== "Unknown").length > 1,
+          firstTradeDate: first.date,
+          lastTradeDate: last.date,
+          spreadDays: daysBetween(first.date, last.date),
+          estimatedVolume: cluster.reduce((sum, { trade }) => sum + (trade.transaction.midpoint ?? 0), 0),
+          members: Array.from(members.values()).map((member) => ({
+            name: member.politician.name,
+            id: member.politician.id ?? null,
+            party: member.politician.party,
+            chamber: member.politician.chamber,
+            state: member.politician.state,
+            trades: member.trades,
+            firstTradeDate: member.firstTradeDate,
+            daysAfterFirstTrade: daysBetween(first.date, member.firstTradeDate),
+            committees: null as string[] | null,
+          })),
+          sharedCommittees: [] as string[],
+          trades: cluster.map(({ trade, date }) => ({
+            politician: trade.politician.name,
+            tradeDate: date,
+            disclosureDate: trade.dates.disclosureDate,
+            size: trade.transaction.size,
+            owner: trade.transaction.owner,
+            detailUrl: trade.detailUrl,
+          })),
+        };
+      })
+      // Most members first, then the tightest, then the largest
+      .sort((a, b) => b.politicianCount - a.politicianCount || a.spreadDays - b.spreadDays || b.estimatedVolume - a.estimatedVolume);
+    const clusters = allClusters.slice(0, limit);
+
+    if (includeCommittees) {
+      // One profile lookup per member; a page that fails to load leaves that member's committees null
+      const committeesById = new Map<string, string[] | null>();
+      for (const member of clusters.flatMap((cluster) => cluster.members)) {
+        if (!member.id || committeesById.has(member.id)) {
+          continue;
+        }
+        try {
+          committeesById.set(member.id, (await scrapePoliticianProfile(member.id)).committees);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logDebug(`Could not read committees for ${member.id}: ${errorMessage}`);
+          committeesById.set(member.id, null);
+        }
+      }
+
+      for (const cluster of clusters) {
+        const counts = new Map<string, number>();
+        for (const member of cluster.members) {
+          member.committees = member.id ? committeesById.get(member.id) ?? null : null;
+          for (const committee of member.committees || []) {
+            counts.set(committee, (counts.get(committee) || 0) + 1);
+          }
+        }
+        cluster.sharedCommittees = Array.from(counts.entries())
+          .filter(([, count]) => count > 1)
+          .map(([committee]) => committee);
+      }
+    }
+
+    return {
+      windowDays,
+      minPoliticians,
+      filters: { symbol },
+      ...describeRange(range),
+      coverage,
+      totalClusters: allClusters.length,
+      clusters,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to find trade clusters: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,108 @@
+import * as cheerio from "cheerio";
+import { TradeDetail } from "./types.js";
+import { getBaseUrl } from "./config.js";
+import { fetchHtml } from "./http-client.js";
+import { dateCellText, extractPathId, normalizeOwner, parseDisplayNumber, readLabeledFields } from "./html-helpers.js";
+import { daysBetween, parseDisplayDate } from "./dates.js";
+import { parseTradeSize } from "./trade-size.js";
+
+// Official disclosure hosts for the House and Senate
+const FILING_HOSTS = /disclosures-clerk\.house\.gov|efdsearch\.senate\.gov/i;
+
+/**
+ * Extract the trade ID from an ID or a trade page URL (e.g., "https://.../trades/20003791001")
+ */
+function parseTradeId(trade: string): string {
+  const trimmed = trade.trim();
+  const id = /^\d+$/.test(trimmed) ? trimmed : extractPathId(trimmed, "trades");
+  if (!id || !/^\d+$/.test(id)) {
+    throw new Error(`Invalid trade "${trade}". Use a trade ID or the detailUrl from a trade listing`);
+  }
+  return id;
+}
+
+/**
+ * Fetch the full record for a single trade from its /trades/{id} page
+ * @param trade - Trade ID or detail URL (as returned in a trade's detailUrl)
+ * @returns The trade with owner, filing link, asset type, comment and share price/quantity
+ *          (fields the page doesn't show are null)
+ */
+export async function getTradeDetail(trade: string): Promise<TradeDetail> {
+  try {
+    const tradeId = parseTradeId(trade);
+    const detailUrl = `${getBaseUrl()}/trades/${tradeId}`;
+    const $ = cheerio.load(await fetchHtml(detailUrl));
+    const $main = $("main").length ? $("main") : $("body");
+    const fields = readLabeledFields($, $main);
+
+    // Politician and issuer headers use the same markup as the trade listing
+    const politicianLink = $main.find(".politician-name a, a[href*='/politicians/']").first();
+    const issuerLink = $main.find(".issuer-name a, a[href*='/issuers/']").first();
+    const issuerName = issuerLink.text().trim();
+
+    const disclosureText = fields.get("published") || "";
+    const tradeText = fields.get("traded") || "";
+    const disclosureDate = parseDisplayDate(disclosureText);
+    const tradeDate = parseDisplayDate(tradeText);
+    const tierMatch = ($main.find("[class*='reporting-gap-tier']").first().attr("class") || "").match(/reporting-gap-tier--(\d+)/);
+    const gapMatch = (fields.get("filed after") || fields.get("reporting gap") || "").match(/\d+/);
+    let reportingGapDays = gapMatch ? parseInt(gapMatch[0], 10) : null;
+    if (reportingGapDays === null && disclosureDate && tradeDate) {
+      reportingGapDays = daysBetween(tradeDate, disclosureDate);
+    }
+
+    const size = fields.get("size") || fields.get("value") || "";
+    const priceText = fields.get("price");
+    const sharesText = fields.get("shares") || fields.get("quantity");
+
+    const filingLink = $main
+      .find("a[href]")
+      .filter((_, link) => FILING_HOSTS.test($(link).attr("href") || "") || /filing/i.test($(link).text()))
+      .first();
+    const filingHref = filingLink.attr("href");
+
+    return {
+      index: 1,
+      tradeId,
+      politician: {
+        id: extractPathId(politicianLink.attr("href"), "politicians"),
+        name: politicianLink.text().trim(),
+        party: $main.find(".party").first().text().trim(),
+        chamber: $main.find(".chamber").first().text().trim(),
+        state: $main.find(".us-state-compact, .us-state-full").first().text().trim(),
+      },
+      issuer: issuerName
+        ? {
+            id: extractPathId(issuerLink.attr("href"), "issuers"),
+            name: issuerName,
+            ticker: $main.find(".issuer-ticker").first().text().trim() || "N/A",
+          }
+        : null,
+      dates: {
+        disclosure: disclosureText,
+        trade: tradeText,
+        reportingGap: reportingGapDays !== null ? `${reportingGapDays} days` : "",
+        disclosureDate,
+        tradeDate,
+        reportingGapDays,
+        reportingGapTier: tierMatch ? parseInt(tierMatch[1], 10) : null,
+      },
+      transaction: {
+        type: (fields.get("type") || dateCellText($, $main.find(".tx-type").first())).toLowerCase(),
+        owner: normalizeOwner(fields.get("owner")),
+        size,
+        ...parseTradeSize(size),
+        price: priceText || "N/A",
+      },
+      detailUrl,
+      filingUrl: filingHref ? new URL(filingHref, detailUrl).href : null,
+      assetType: fields.get("asset type") || null,
+      comment: fields.get("comment") || fields.get("description") || null,
+      shares: parseDisplayNumber(sharesText),
+      sharePrice: parseDisplayNumber(priceText),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get trade detail for "${trade}": ${errorMessage}`);
+  }
+}
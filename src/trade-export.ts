@@ -0,0 +1,228 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { TradeWithPrice } from "./types.js";
+import { getDataDir } from "./trade-store.js";
+
+/**
+ * Write trade listings to files for spreadsheets and notebooks
+ * Nested politician, issuer, date and transaction fields are flattened into one column each
+ * (e.g., politician.name -> politician_name); every format gets the same columns
+ */
+
+export type ExportFormat = "csv" | "ndjson" | "parquet";
+
+type ColumnValue = string | number | null;
+
+interface ExportColumn {
+  name: string;
+  type: "STRING" | "INT32" | "DOUBLE";
+  value: (trade: TradeWithPrice) => ColumnValue;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+/**
+ * Column for a nested field, named after its path with dots replaced by underscores
+ */
+function column(fieldPath: string, type: ExportColumn["type"] = "STRING"): ExportColumn {
+  const keys = fieldPath.split(".");
+  return {
+    name: keys.join("_"),
+    type,
+    value: (trade) => {
+      const value = keys.reduce<unknown>((object, key) => (isRecord(object) ? object[key] : null), trade);
+      return typeof value === "number" || (typeof value === "string" && value !== "") ? value : null;
+    },
+  };
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  column("index", "INT32"),
+  column("politician.id"),
+  column("politician.name"),
+  column("politician.party"),
+  column("politician.chamber"),
+  column("politician.state"),
+  column("issuer.id"),
+  column("issuer.name"),
+  column("issuer.ticker"),
+  column("dates.disclosure"),
+  column("dates.trade"),
+  column("dates.reportingGap"),
+  column("dates.disclosureDate"),
+  column("dates.tradeDate"),
+  column("dates.reportingGapDays", "INT32"),
+  column("dates.reportingGapTier", "INT32"),
+  column("transaction.type"),
+  column("transaction.owner"),
+  column("transaction.size"),
+  column("transaction.minAmount", "DOUBLE"),
+  column("transaction.maxAmount", "DOUBLE"),
+  column("transaction.midpoint", "DOUBLE"),
+  column("transaction.price"),
+  column("detailUrl"),
+];
+
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  ".csv": "csv",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+  ".parquet": "parquet",
+};
+
+/**
+ * Directory the export_trades tool writes into
+ * Override with CAPITOL_TRADES_EXPORT_DIR (default: exports in the data directory)
+ */
+export function getExportDir(): string {
+  return process.env.CAPITOL_TRADES_EXPORT_DIR || path.join(getDataDir(), "exports");
+}
+
+/**
+ * Whether a path lies strictly below a directory
+ */
+function isInside(candidate: string, directory: string): boolean {
+  const relative = path.relative(directory, candidate);
+  return relative !== "" && relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve an export path inside a directory: relative paths resolve against it, and paths that
+ * lead outside it (absolute or through "..") are rejected
+ */
+export function resolveExportPath(filePath: string, exportDir: string): string {
+  const root = path.resolve(exportDir);
+  const outputPath = path.resolve(root, filePath);
+  if (!isInside(outputPath, root)) {
+    throw new Error(`path must be inside the export directory ${root}`);
+  }
+  return outputPath;
+}
+
+/**
+ * Real path of a directory that may not exist yet: its nearest existing ancestor with symlinks resolved,
+ * plus the missing part
+ */
+async function realDirectory(directory: string): Promise<string> {
+  for (let current = directory; ; current = path.dirname(current)) {
+    try {
+      return path.join(await fs.realpath(current), path.relative(current, directory));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT" || current === path.dirname(current)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Check that a path resolved by resolveExportPath doesn't leave the directory through a symlink
+ */
+async function checkNoSymlinkEscape(outputPath: string, exportDir: string): Promise<void> {
+  await fs.mkdir(exportDir, { recursive: true });
+  const realRoot = await fs.realpath(exportDir);
+  const realParent = await realDirectory(path.dirname(outputPath));
+  if (realParent !== realRoot && !isInside(realParent, realRoot)) {
+    throw new Error(`path must be inside the export directory ${exportDir}`);
+  }
+  const existing = await fs.lstat(outputPath).catch(() => null);
+  if (existing?.isSymbolicLink()) {
+    throw new Error("path must not be a symbolic link");
+  }
+}
+
+/**
+ * Flatten a trade into one value per export column
+ */
+export function flattenTrade(trade: TradeWithPrice): Record<string, ColumnValue> {
+  return Object.fromEntries(EXPORT_COLUMNS.map((exportColumn) => [exportColumn.name, exportColumn.value(trade)]));
+}
+
+/**
+ * Pick the export format: the explicit one, or the one the file extension implies
+ */
+export function resolveExportFormat(filePath: string, format?: string): ExportFormat {
+  if (format) {
+    if (format !== "csv" && format !== "ndjson" && format !== "parquet") {
+      throw new Error("format must be 'csv', 'ndjson' or 'parquet'");
+    }
+    return format;
+  }
+  const inferred = EXTENSION_FORMATS[path.extname(filePath).toLowerCase()];
+  if (!inferred) {
+    throw new Error("format is required when the path doesn't end in .csv, .ndjson, .jsonl or .parquet");
+  }
+  return inferred;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function csvField(value: ColumnValue): string {
+  if (value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Record<string, ColumnValue>[]): string {
+  const lines = [EXPORT_COLUMNS.map((exportColumn) => exportColumn.name).join(",")];
+  for (const row of rows) {
+    lines.push(EXPORT_COLUMNS.map((exportColumn) => csvField(row[exportColumn.name])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Render trades as CSV or NDJSON text (e.g., for standard output)
+ */
+export function formatTrades(trades: TradeWithPrice[], format: "csv" | "ndjson"): string {
+  const rows = trades.map(flattenTrade);
+  return format === "csv" ? toCsv(rows) : rows.map((row) => `${JSON.stringify(row)}\n`).join("");
+}
+
+function toParquet(rows: Record<string, ColumnValue>[]): Uint8Array {
+  const buffer = parquetWriteBuffer({
+    columnData: EXPORT_COLUMNS.map((exportColumn) => ({
+      name: exportColumn.name,
+      type: exportColumn.type,
+      data: rows.map((row) => row[exportColumn.name]),
+    })),
+  });
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Write trades to a CSV, NDJSON or Parquet file
+ * @param trades - Trades as returned by getPoliticianTrades and the other trade listings
+ * @param filePath - Destination file; relative paths resolve against exportDir (or the working directory)
+ *                   and missing directories are created
+ * @param format - csv, ndjson or parquet (default: from the file extension)
+ * @param exportDir - Directory to confine the file to, for callers that take paths from clients
+ * @returns The absolute path written, the format, the row count and the column names
+ */
+export async function exportTrades(trades: TradeWithPrice[], filePath: string, format?: string, exportDir?: string) {
+  try {
+    const exportFormat = resolveExportFormat(filePath, format);
+    const outputPath = exportDir ? resolveExportPath(filePath, exportDir) : path.resolve(filePath);
+    if (exportDir) {
+      await checkNoSymlinkEscape(outputPath, path.resolve(exportDir));
+    }
+    const contents = exportFormat === "parquet" ? toParquet(trades.map(flattenTrade)) : formatTrades(trades, exportFormat);
+
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, contents);
+
+    return {
+      path: outputPath,
+      format: exportFormat,
+      rowCount: trades.length,
+      columns: EXPORT_COLUMNS.map((exportColumn) => exportColumn.name),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to export trades to ${filePath}: ${errorMessage}`);
+  }
+}
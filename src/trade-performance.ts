@@ -0,0 +1,236 @@
+import { IsoDate, TradeFilterOptions, TradePageOptions, TradeWithPrice } from "./types.js";
+import { DateRangeOptions, daysAgo, toDate } from "./dates.js";
+import { getPoliticianTrades } from "./politician-trades-scraper.js";
+import { getPriceDir, loadPriceSeries, PriceSeries, priceOnOrAfter, priceTicker } from "./price-history.js";
+
+/**
+ * Post-trade returns: how each trade's asset moved after the trade and after its disclosure,
+ * compared with a benchmark over the same days, using the local price history (see price-history.ts)
+ */
+
+// Calendar days after the trade or disclosure date
+export const RETURN_HORIZONS = [1, 7, 30, 90];
+
+type HorizonKey = `${number}d`;
+type HorizonValues = Record<HorizonKey, number | null>;
+
+/**
+ * Returns after one anchor date (the trade date or the disclosure date), in percent
+ * excessReturnPct is the asset's return minus the benchmark's over the same dates
+ */
+export interface AnchoredReturns {
+  entryDate: IsoDate;
+  entryPrice: number;
+  returnPct: HorizonValues;
+  benchmarkReturnPct: HorizonValues;
+  excessReturnPct: HorizonValues;
+}
+
+/**
+ * Averages for one horizon over a group of trades
+ * Sells count as the opposite position, so a positive average means the trades were well timed
+ */
+export interface HorizonSummary {
+  trades: number;
+  averageReturnPct: number | null;
+  averageExcessReturnPct: number | null;
+  beatBenchmarkRate: number | null;
+}
+
+type AnchorSummary = Record<HorizonKey, HorizonSummary>;
+
+const horizonKey = (days: number): HorizonKey => `${days}d`;
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Percentage change between two dates; null when either price is unavailable
+ */
+function percentChange(series: PriceSeries | null, from: IsoDate, to: IsoDate): number | null {
+  if (!series) {
+    return null;
+  }
+  const start = priceOnOrAfter(series, from);
+  const end = priceOnOrAfter(series, to);
+  if (!start || !end || end.date <= start.date) {
+    return null;
+  }
+  return (end.price / start.price - 1) * 100;
+}
+
+/**
+ * Returns at every horizon after an anchor date
+ * @returns null when there is no price on (or just after) the anchor date
+ */
+function anchoredReturns(series: PriceSeries, benchmark: PriceSeries | null, anchor: IsoDate | null): AnchoredReturns | null {
+  const entry = anchor ? priceOnOrAfter(series, anchor) : null;
+  if (!anchor || !entry) {
+    return null;
+  }
+  const returns: AnchoredReturns = {
+    entryDate: entry.date,
+    entryPrice: entry.price,
+    returnPct: {},
+    benchmarkReturnPct: {},
+    excessReturnPct: {},
+  };
+  for (const days of RETURN_HORIZONS) {
+    const key = horizonKey(days);
+    const exit = daysAgo(-days, toDate(anchor));
+    const asset = percentChange(series, anchor, exit);
+    const market = percentChange(benchmark, anchor, exit);
+    returns.returnPct[key] = asset === null ? null : round(asset);
+    returns.benchmarkReturnPct[key] = market === null ? null : round(market);
+    returns.excessReturnPct[key] = asset === null || market === null ? null : round(asset - market);
+  }
+  return returns;
+}
+
+/**
+ * +1 for buys, -1 for sells; receives and exchanges have no direction and are left out of averages
+ */
+function tradeDirection(trade: TradeWithPrice): number {
+  const type = trade.transaction.type?.toLowerCase();
+  return type === "buy" ? 1 : type === "sell" ? -1 : 0;
+}
+
+interface TradePerformance {
+  trade: TradeWithPrice;
+  afterTrade: AnchoredReturns | null;
+  afterDisclosure: AnchoredReturns | null;
+}
+
+/**
+ * Average the direction-adjusted returns of a group of trades at every horizon
+ */
+function summarize(results: TradePerformance[], anchor: "afterTrade" | "afterDisclosure"): AnchorSummary {
+  const summary: AnchorSummary = {};
+  for (const days of RETURN_HORIZONS) {
+    const key = horizonKey(days);
+    const returns: number[] = [];
+    const excess: number[] = [];
+    for (const result of results) {
+      const direction = tradeDirection(result.trade);
+      const returnPct = result[anchor]?.returnPct[key];
+      const excessPct = result[anchor]?.excessReturnPct[key];
+      if (direction === 0 || returnPct === null || returnPct === undefined) {
+        continue;
+      }
+      returns.push(direction * returnPct);
+      if (excessPct !== null && excessPct !== undefined) {
+        excess.push(direction * excessPct);
+      }
+    }
+    const average = (values: number[]) => (values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null);
+    summary[key] = {
+      trades: returns.length,
+      averageReturnPct: average(returns),
+      averageExcessReturnPct: average(excess),
+      beatBenchmarkRate: excess.length > 0 ? round(excess.filter((value) => value > 0).length / excess.length) : null,
+    };
+  }
+  return summary;
+}
+
+/**
+ * Get each trade's return 1, 7, 30 and 90 days after the trade date and after the disclosure date,
+ * with per-politician averages and a comparison to a benchmark ticker
+ * Accepts the same filters as getPoliticianTrades; prices come from the local price directory
+ * @param limit - Maximum number of trades to analyze
+ * @param benchmark - Ticker to compare against (default: SPY); it needs a price file too
+ */
+export async function getTradePerformance(
+  symbol: string | null,
+  politician: string | null,
+  party: string | null,
+  type: string[],
+  window: number | DateRangeOptions,
+  limit: number = 200,
+  maxPages?: number,
+  filters: TradeFilterOptions = {},
+  paging: TradePageOptions = {},
+  benchmark: string = "SPY"
+) {
+  try {
+    const benchmarkTicker = priceTicker(benchmark);
+    if (!benchmarkTicker) {
+      throw new Error("benchmark must be a ticker (e.g., 'SPY')");
+    }
+    const benchmarkSeries = await loadPriceSeries(benchmarkTicker);
+
+    const listing = await getPoliticianTrades(symbol, politician, party, type, window, limit, maxPages, filters, paging);
+
+    const seriesByTicker = new Map<string, PriceSeries | null>();
+    const results: TradePerformance[] = [];
+    for (const trade of listing.trades) {
+      const ticker = priceTicker(trade.issuer.ticker);
+      if (ticker && !seriesByTicker.has(ticker)) {
+        seriesByTicker.set(ticker, await loadPriceSeries(ticker));
+      }
+      const series = ticker ? seriesByTicker.get(ticker) : null;
+      results.push({
+        trade,
+        afterTrade: series ? anchoredReturns(series, benchmarkSeries, trade.dates.tradeDate) : null,
+        afterDisclosure: series ? anchoredReturns(series, benchmarkSeries, trade.dates.disclosureDate) : null,
+      });
+    }
+
+    // Group by politician, keeping the order they first appear in
+    const byPolitician = new Map<string, TradePerformance[]>();
+    for (const result of results) {
+      const key = result.trade.politician.id || result.trade.politician.name;
+      byPolitician.set(key, [...(byPolitician.get(key) || []), result]);
+    }
+    const politicians = Array.from(byPolitician.values())
+      .map((group) => ({
+        politician: group[0].trade.politician.name,
+        politicianId: group[0].trade.politician.id ?? null,
+        party: group[0].trade.politician.party,
+        chamber: group[0].trade.politician.chamber,
+        trades: group.length,
+        pricedTrades: group.filter((result) => result.afterTrade || result.afterDisclosure).length,
+        afterTrade: summarize(group, "afterTrade"),
+        afterDisclosure: summarize(group, "afterDisclosure"),
+      }))
+      .sort((a, b) => b.pricedTrades - a.pricedTrades);
+
+    const missingPriceHistory = [
+      ...(benchmarkSeries ? [] : [benchmarkTicker]),
+      ...Array.from(seriesByTicker.entries())
+        .filter(([ticker, series]) => !series && ticker !== benchmarkTicker)
+        .map(([ticker]) => ticker),
+    ];
+
+    return {
+      filters: listing.filters,
+      benchmark: benchmarkTicker,
+      horizonsDays: RETURN_HORIZONS,
+      priceDir: getPriceDir(),
+      missingPriceHistory,
+      totalTrades: results.length,
+      pricedTrades: results.filter((result) => result.afterTrade || result.afterDisclosure).length,
+      nextCursor: listing.nextCursor,
+      coverage: listing.coverage,
+      overall: {
+        afterTrade: summarize(results, "afterTrade"),
+        afterDisclosure: summarize(results, "afterDisclosure"),
+      },
+      politicians,
+      trades: results.map(({ trade, afterTrade, afterDisclosure }) => ({
+        index: trade.index,
+        politician: trade.politician,
+        issuer: trade.issuer,
+        type: trade.transaction.type,
+        size: trade.transaction.size,
+        tradeDate: trade.dates.tradeDate,
+        disclosureDate: trade.dates.disclosureDate,
+        detailUrl: trade.detailUrl,
+        afterTrade,
+        afterDisclosure,
+      })),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get trade performance: ${errorMessage}`);
+  }
+}
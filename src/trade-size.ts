@@ -0,0 +1,109 @@
+/**
+ * Helpers for Capitol Trades trade size brackets (e.g., "1K–15K", "1M–5M")
+ */
+
+export interface TradeSizeRange {
+  minAmount: number | null;
+  maxAmount: number | null;
+  midpoint: number | null;
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  "": 1,
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+};
+
+/**
+ * Parse a single amount like "15K", "$1.5M" or "250,000" into dollars
+ */
+function parseAmount(text: string): number | null {
+  const match = text.replace(/[$,\s]/g, "").toLowerCase().match(/^(\d+(?:\.\d+)?)([kmb]?)$/);
+  if (!match) {
+    return null;
+  }
+  return Math.round(parseFloat(match[1]) * MULTIPLIERS[match[2]]);
+}
+
+/**
+ * Parse a trade size bracket into numeric dollar bounds
+ * @param size - Raw size text (e.g., "1K–15K", "< 1K", "50M+")
+ * @returns Lower/upper bounds and midpoint in dollars; nulls if the text is not a size
+ */
+export function parseTradeSize(size: string): TradeSizeRange {
+  const text = size.trim();
+  const unknown: TradeSizeRange = { minAmount: null, maxAmount: null, midpoint: null };
+  if (!text) {
+    return unknown;
+  }
+
+  // Upper-bounded only, e.g. "< 1K"
+  const below = text.match(/^<\s*(.+)$/);
+  if (below) {
+    const maxAmount = parseAmount(below[1]);
+    return maxAmount === null ? unknown : { minAmount: 0, maxAmount, midpoint: maxAmount / 2 };
+  }
+
+  // Lower-bounded only, e.g. "50M+" or "> 50M"
+  const above = text.match(/^>\s*(.+)$/) || text.match(/^(.+?)\s*\+$/);
+  if (above) {
+    const minAmount = parseAmount(above[1]);
+    return minAmount === null ? unknown : { minAmount, maxAmount: null, midpoint: minAmount };
+  }
+
+  // Bracket, e.g. "1K–15K"
+  const parts = text.split(/\s*[–—-]\s*/);
+  if (parts.length === 2) {
+    const minAmount = parseAmount(parts[0]);
+    const maxAmount = parseAmount(parts[1]);
+    if (minAmount === null || maxAmount === null) {
+      return unknown;
+    }
+    return { minAmount, maxAmount, midpoint: (minAmount + maxAmount) / 2 };
+  }
+
+  // A single exact amount
+  const exact = parseAmount(text);
+  return exact === null ? unknown : { minAmount: exact, maxAmount: exact, midpoint: exact };
+}
+
+// Size brackets in the order the site numbers them in its tradeSize filter (1 = "< 1K")
+const SITE_SIZE_BRACKETS: Array<[number, number | null]> = [
+  [0, 1_000],
+  [1_000, 15_000],
+  [15_000, 50_000],
+  [50_000, 100_000],
+  [100_000, 250_000],
+  [250_000, 500_000],
+  [500_000, 1_000_000],
+  [1_000_000, 5_000_000],
+  [5_000_000, 25_000_000],
+  [25_000_000, 50_000_000],
+  [50_000_000, null],
+];
+
+/**
+ * Check whether a trade's size bracket lies entirely within dollar bounds
+ * Trades of unknown size never match a bounded filter
+ * @param minSize - Smallest allowed lower bound (e.g., 250000 for "trades over $250K")
+ * @param maxSize - Largest allowed upper bound
+ */
+export function isSizeWithin(size: TradeSizeRange, minSize?: number, maxSize?: number): boolean {
+  if (minSize !== undefined && (size.minAmount === null || size.minAmount < minSize)) {
+    return false;
+  }
+  if (maxSize !== undefined && (size.maxAmount === null || size.maxAmount > maxSize)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The site's tradeSize filter values for the brackets within dollar bounds
+ */
+export function siteTradeSizeBrackets(minSize?: number, maxSize?: number): number[] {
+  return SITE_SIZE_BRACKETS.map(([minAmount, maxAmount], index) => ({ minAmount, maxAmount, midpoint: null, bracket: index + 1 }))
+    .filter((size) => isSizeWithin(size, minSize, maxSize))
+    .map((size) => size.bracket);
+}
@@ -0,0 +1,195 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TradeWithPrice } from "./types.js";
+import { DateRange, isInRange, rangeDateOf } from "./dates.js";
+import { extractPathId } from "./html-helpers.js";
+
+/**
+ * Persistent on-disk store of normalized trades
+ * Trades are kept in a single JSON file so repeated questions don't re-scrape Capitol Trades
+ */
+
+/**
+ * A trade as persisted in the local store
+ */
+export interface StoredTrade extends TradeWithPrice {
+  key: string;
+}
+
+/**
+ * Interface for the on-disk store file
+ */
+export interface TradeStoreData {
+  version: number;
+  lastSync: string | null;
+  latestDisclosure: string | null;
+  earliestDisclosure: string | null;
+  // Newest disclosure of the last sync that paged down to trades already stored (or to the end);
+  // a sync cut short before that leaves a gap, so it doesn't move this forward
+  syncedThrough: string | null;
+  // True once a sync has paged through the whole window at least once
+  backfillComplete: boolean;
+  // Next page an unfinished backfill resumes from; the store can hold trades the site no longer
+  // lists, so its size says nothing about how far the backfill got
+  backfillPage: number;
+  trades: StoredTrade[];
+}
+
+/**
+ * Filters for reading trades back out of the store
+ */
+export interface TradeQuery {
+  range?: DateRange;
+  politicianId?: string;
+  issuerId?: string;
+}
+
+const STORE_VERSION = 10;
+
+/**
+ * Directory holding the store file
+ * Override with CAPITOL_TRADES_DATA_DIR (e.g., for tests or shared installs)
+ */
+export function getDataDir(): string {
+  return process.env.CAPITOL_TRADES_DATA_DIR || path.join(os.homedir(), ".mcp-capitol-trades");
+}
+
+function getStorePath(): string {
+  return path.join(getDataDir(), "trades.json");
+}
+
+function emptyStore(): TradeStoreData {
+  return {
+    version: STORE_VERSION,
+    lastSync: null,
+    latestDisclosure: null,
+    earliestDisclosure: null,
+    syncedThrough: null,
+    backfillComplete: false,
+    backfillPage: 1,
+    trades: [],
+  };
+}
+
+/**
+ * Build a stable identity for a trade so re-scraped rows replace instead of duplicate
+ * Uses the Capitol Trades trade ID from the detail link; rows without one fall back to their
+ * politician, issuer, dates, type and size (so two identical lots in such rows are stored once)
+ */
+export function tradeKey(trade: TradeWithPrice): string {
+  const tradeId = extractPathId(trade.detailUrl || undefined, "trades");
+  if (tradeId) {
+    return `trade:${tradeId}`;
+  }
+  return [
+    trade.politician.id || trade.politician.name,
+    trade.issuer.id || trade.issuer.name,
+    trade.dates.tradeDate || trade.dates.trade,
+    trade.dates.disclosureDate || trade.dates.disclosure,
+    trade.transaction.type,
+    trade.transaction.size,
+  ]
+    .map((part) => (part || "").toLowerCase())
+    .join("|");
+}
+
+/**
+ * Normalize a scraped trade into its stored form
+ */
+export function toStoredTrade(trade: TradeWithPrice): StoredTrade {
+  return { ...trade, key: tradeKey(trade) };
+}
+
+/**
+ * Load the store from disk, returning an empty store if none exists yet
+ */
+export async function loadTradeStore(): Promise<TradeStoreData> {
+  try {
+    const raw = await fs.readFile(getStorePath(), "utf8");
+    const data = JSON.parse(raw) as TradeStoreData;
+    if (data.version !== STORE_VERSION || !Array.isArray(data.trades)) {
+      return emptyStore();
+    }
+    return data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return emptyStore();
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load trade store: ${errorMessage}`);
+  }
+}
+
+/**
+ * Write the store to disk atomically (write to a temp file, then rename)
+ */
+export async function saveTradeStore(data: TradeStoreData): Promise<void> {
+  const storePath = getStorePath();
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(storePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data), "utf8");
+    await fs.rename(tempPath, storePath);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to save trade store: ${errorMessage}`);
+  }
+}
+
+/**
+ * Merge newly scraped trades into the store, replacing rows with the same key
+ * @returns Number of trades that were not already stored
+ */
+export function mergeTrades(data: TradeStoreData, trades: TradeWithPrice[]): number {
+  const byKey = new Map(data.trades.map((trade) => [trade.key, trade]));
+  let added = 0;
+
+  for (const trade of trades) {
+    const stored = toStoredTrade(trade);
+    if (!byKey.has(stored.key)) {
+      added++;
+    }
+    byKey.set(stored.key, stored);
+  }
+
+  // Keep the store in site order: newest disclosure first
+  data.trades = Array.from(byKey.values()).sort((a, b) =>
+    (b.dates.disclosureDate || "").localeCompare(a.dates.disclosureDate || "")
+  );
+  const disclosed = data.trades.filter((trade) => trade.dates.disclosureDate);
+  data.latestDisclosure = disclosed[0]?.dates.disclosureDate || null;
+  data.earliestDisclosure = disclosed[disclosed.length - 1]?.dates.disclosureDate || null;
+  return added;
+}
+
+/**
+ * Read trades out of the store, newest disclosure first
+ */
+export function queryTrades(data: TradeStoreData, query: TradeQuery = {}): TradeWithPrice[] {
+  const range = query.range;
+
+  return data.trades
+    .filter((trade) => {
+      if (query.politicianId && trade.politician.id !== query.politicianId) return false;
+      if (query.issuerId && trade.issuer.id !== query.issuerId) return false;
+      if (range && !isInRange(rangeDateOf(trade, range.field), range)) return false;
+      return true;
+    })
+    .map(({ key, ...trade }, index) => ({ ...trade, index: index + 1 }));
+}
+
+/**
+ * Check whether the store holds every trade in a range
+ * Nothing is complete while a cut-short sync has left disclosures newer than syncedThrough unfetched.
+ * Before the backfill finishes, only windows starting after the oldest stored disclosure are complete
+ */
+export function isStoreComplete(data: TradeStoreData, range?: DateRange): boolean {
+  if (data.latestDisclosure !== data.syncedThrough) {
+    return false;
+  }
+  if (data.backfillComplete) {
+    return true;
+  }
+  return !!(range?.from && data.earliestDisclosure && range.from > data.earliestDisclosure);
+}
@@ -3,26 +3,93 @@
  */
 
 export interface Politician {
+  id?: string;
   name: string;
   party: string;
   chamber: string;
   state: string;
 }
 
+/**
+ * A politician returned by a name search; always carries its Capitol Trades ID
+ */
+export interface PoliticianCandidate extends Politician {
+  id: string;
+}
+
+/**
+ * A politician's page on Capitol Trades: biography plus the site's own trading totals
+ */
+export interface PoliticianProfile extends PoliticianCandidate {
+  profileUrl: string;
+  district: string | null;
+  yearsActive: string | null;
+  yearsInOffice: number | null;
+  dateOfBirth: IsoDate | null;
+  totalTrades: number | null;
+  issuersTraded: number | null;
+  totalVolume: string | null;
+  estimatedTotalVolume: number | null;
+  lastTraded: IsoDate | null;
+  // Committee assignments as the page lists them (empty when it lists none)
+  committees: string[];
+}
+
 export interface Issuer {
+  id?: string;
   name: string;
   ticker: string;
 }
 
+/**
+ * An issuer returned by a search, with whatever metadata the search page shows
+ */
+export interface IssuerCandidate extends Issuer {
+  id: string;
+  sector: string | null;
+  country: string | null;
+}
+
+/**
+ * An issuer's page on Capitol Trades: company data plus aggregate politician activity
+ */
+export interface IssuerProfile extends IssuerCandidate {
+  profileUrl: string;
+  industry: string | null;
+  marketCap: string | null;
+  estimatedMarketCap: number | null;
+  sharePrice: number | null;
+  totalTrades: number | null;
+  politiciansTrading: number | null;
+  totalVolume: string | null;
+  estimatedTotalVolume: number | null;
+  lastTraded: IsoDate | null;
+}
+
+/**
+ * ISO-8601 calendar date (YYYY-MM-DD)
+ * Kept as a string so trades survive JSON serialization; convert with toDate() from dates.ts
+ */
+export type IsoDate = string;
+
 export interface TradeDates {
   disclosure: string;
   trade: string;
   reportingGap: string;
+  disclosureDate: IsoDate | null;
+  tradeDate: IsoDate | null;
+  reportingGapDays: number | null;
+  // Capitol Trades' color tier for the gap, from 1 (fastest) to 4 (slowest), when the page shows one
+  reportingGapTier: number | null;
 }
 
 export interface TransactionWithPrice {
   type: string;
+  owner: string;
   size: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  midpoint: number | null;
   price: string;
 }
 
@@ -30,6 +97,9 @@ export interface TransactionWithOwner {
   type: string;
   owner: string;
   size: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  midpoint: number | null;
   price: string;
 }
 
@@ -39,6 +109,8 @@ export interface TradeWithPrice {
   issuer: Issuer;
   dates: TradeDates;
   transaction: TransactionWithPrice;
+  // Link to the trade's own page (see get_trade_detail)
+  detailUrl: string | null;
 }
 
 export interface TradeWithOwner {
@@ -50,5 +122,61 @@ export interface TradeWithOwner {
   detailUrl: string | null;
 }
 
+/**
+ * Everything the individual trade page discloses
+ */
+export interface TradeDetail extends TradeWithOwner {
+  tradeId: string;
+  filingUrl: string | null;
+  assetType: string | null;
+  comment: string | null;
+  shares: number | null;
+  sharePrice: number | null;
+}
+
 export type Trade = TradeWithPrice | TradeWithOwner;
 
+/**
+ * Extra filters for trade listings beyond issuer, politician, party and type
+ * Values are matched case-insensitively; multi-valued filters match any of their values
+ */
+export interface TradeFilterOptions {
+  chamber?: string;
+  state?: string;
+  owner?: string[];
+  minSize?: number;
+  maxSize?: number;
+  assetType?: string[];
+  sector?: string[];
+}
+
+/**
+ * Fields trade listings can be sorted by
+ */
+export type TradeSortField = "tradeDate" | "disclosureDate" | "size" | "reportingGap";
+
+/**
+ * Paging and sort order for trade listings
+ * cursor is the opaque nextCursor from a previous page of the same query
+ */
+export interface TradePageOptions {
+  cursor?: string;
+  sortBy?: TradeSortField;
+  sortDirection?: "asc" | "desc";
+}
+
+/**
+ * How much of the requested trades a fetch actually covered
+ */
+export interface TradeCoverage {
+  complete: boolean;
+  stopReason: "end" | "window" | "limit" | "maxPages" | "error";
+  pagesFetched: number;
+  earliestTradeDate: IsoDate | null;
+  latestTradeDate: IsoDate | null;
+}
+
+export interface TradeFetchResult {
+  trades: TradeWithPrice[];
+  coverage: TradeCoverage;
+}
@@ -0,0 +1,304 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { IsoDate, TradeWithPrice } from "./types.js";
+import { getBaseUrl } from "./config.js";
+import { getDataDir, tradeKey } from "./trade-store.js";
+import { buildDateRangeParams, getIssuerId, getPoliticianId, scrapeTradePages } from "./politician-trades-scraper.js";
+import { DateRange, daysAgo } from "./dates.js";
+
+/**
+ * Locally persisted watchlists of politicians and tickers
+ * Each check returns only the trades disclosed since the previous check, so new filings
+ * stand out without re-reading the whole trade list
+ */
+
+/**
+ * A politician or issuer on a watchlist: what the user asked for and the ID it resolved to
+ */
+export interface WatchlistEntry {
+  label: string;
+  id: string;
+}
+
+/**
+ * A watchlist as returned to callers
+ */
+export interface WatchlistSummary {
+  name: string;
+  politicians: WatchlistEntry[];
+  tickers: WatchlistEntry[];
+  createdAt: string;
+  lastChecked: string | null;
+}
+
+/**
+ * Who is checking a watchlist: the check_watchlist tool ("check") or the notification poller ("notify")
+ * Each keeps its own check state, so neither consumes the new trades the other hasn't reported yet
+ */
+export type WatchlistReader = "check" | "notify";
+
+/**
+ * When a reader last checked a watchlist and which trades it has already reported
+ */
+interface CheckState {
+  lastChecked: string | null;
+  // Trade key -> disclosure date, pruned once a trade falls out of the check window
+  seen: Record<string, IsoDate | null>;
+}
+
+/**
+ * A watchlist as persisted: the check_watchlist state inline, the poller's under notify
+ */
+interface StoredWatchlist extends WatchlistSummary, CheckState {
+  // Created by the poller's first cycle on the watchlist
+  notify?: CheckState;
+}
+
+interface WatchlistFileData {
+  version: number;
+  watchlists: StoredWatchlist[];
+}
+
+const WATCHLIST_VERSION = 1;
+// How far back the first check of a new watchlist looks
+const FIRST_CHECK_DAYS = 30;
+// Later checks re-read this many days before the previous check, since the site can publish
+// trades after their disclosure date; already reported trades are skipped
+const CHECK_OVERLAP_DAYS = 3;
+// The poller's first cycle on a watchlist looks back no further than a later cycle's overlap,
+// so starting to poll doesn't send a month of old disclosures
+const FIRST_NOTIFY_DAYS = CHECK_OVERLAP_DAYS;
+// Most trades read per watched politician or ticker in one check; a check that hits it is incomplete
+const CHECK_TRADE_LIMIT = 500;
+
+function getWatchlistPath(): string {
+  return path.join(getDataDir(), "watchlists.json");
+}
+
+async function loadWatchlists(): Promise<WatchlistFileData> {
+  try {
+    const data = JSON.parse(await fs.readFile(getWatchlistPath(), "utf8")) as WatchlistFileData;
+    if (data.version !== WATCHLIST_VERSION || !Array.isArray(data.watchlists)) {
+      throw new Error(`unsupported watchlist file version ${data.version}`);
+    }
+    return data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: WATCHLIST_VERSION, watchlists: [] };
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load watchlists: ${errorMessage}`);
+  }
+}
+
+/**
+ * Write the watchlists to disk atomically (write to a temp file, then rename)
+ */
+async function saveWatchlists(data: WatchlistFileData): Promise<void> {
+  const filePath = getWatchlistPath();
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to save watchlists: ${errorMessage}`);
+  }
+}
+
+// Serializes read-modify-write cycles so concurrent tool calls don't overwrite each other
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+function updateWatchlists<T>(update: (data: WatchlistFileData) => Promise<T>): Promise<T> {
+  const run = pendingUpdate.then(async () => {
+    const data = await loadWatchlists();
+    const result = await update(data);
+    await saveWatchlists(data);
+    return result;
+  });
+  pendingUpdate = run.catch(() => undefined);
+  return run;
+}
+
+function summarize({ seen, notify, ...watchlist }: StoredWatchlist): WatchlistSummary {
+  return watchlist;
+}
+
+function findWatchlist(data: WatchlistFileData, name: string): StoredWatchlist {
+  const watchlist = data.watchlists.find((candidate) => candidate.name === name);
+  if (!watchlist) {
+    const names = data.watchlists.map((candidate) => candidate.name);
+    throw new Error(`No watchlist named "${name}"${names.length ? `. Existing watchlists: ${names.join(", ")}` : ""}`);
+  }
+  return watchlist;
+}
+
+/**
+ * List the saved watchlists
+ */
+export async function listWatchlists(): Promise<WatchlistSummary[]> {
+  const data = await loadWatchlists();
+  return data.watchlists.map(summarize);
+}
+
+/**
+ * Add politicians and tickers to a watchlist, creating it if needed
+ * Names are resolved to Capitol Trades IDs up front, so ambiguous names fail here rather than at check time
+ * @param name - Watchlist name
+ * @param politicians - Politician names or IDs
+ * @param tickers - Tickers, company names or issuer IDs
+ * @returns The updated watchlist
+ */
+export async function addToWatchlist(name: string, politicians: string[], tickers: string[]): Promise<WatchlistSummary> {
+  try {
+    const politicianEntries: WatchlistEntry[] = [];
+    for (const politician of politicians) {
+      politicianEntries.push({ label: politician, id: await getPoliticianId(politician) });
+    }
+    const tickerEntries: WatchlistEntry[] = [];
+    for (const ticker of tickers) {
+      tickerEntries.push({ label: ticker, id: await getIssuerId(ticker) });
+    }
+
+    return await updateWatchlists(async (data) => {
+      let watchlist = data.watchlists.find((candidate) => candidate.name === name);
+      if (!watchlist) {
+        watchlist = { name, politicians: [], tickers: [], createdAt: new Date().toISOString(), lastChecked: null, seen: {} };
+        data.watchlists.push(watchlist);
+      }
+      for (const [entries, added] of [[watchlist.politicians, politicianEntries], [watchlist.tickers, tickerEntries]]) {
+        for (const entry of added) {
+          if (!entries.some((existing) => existing.id === entry.id)) {
+            entries.push(entry);
+          }
+        }
+      }
+      return summarize(watchlist);
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to add to watchlist "${name}": ${errorMessage}`);
+  }
+}
+
+/**
+ * Find the entry a user refers to by its label or ID, resolving the name only if neither matches
+ */
+async function findEntryIndex(entries: WatchlistEntry[], query: string, resolve: (query: string) => Promise<string>): Promise<number> {
+  const normalized = query.trim().toLowerCase();
+  let index = entries.findIndex((entry) => entry.id.toLowerCase() === normalized || entry.label.toLowerCase() === normalized);
+  if (index === -1) {
+    const id = await resolve(query);
+    index = entries.findIndex((entry) => entry.id === id);
+  }
+  return index;
+}
+
+/**
+ * Remove politicians and tickers from a watchlist, or delete it when neither is given
+ * @returns The updated watchlist, or null if it was deleted
+ */
+export async function removeFromWatchlist(name: string, politicians: string[], tickers: string[]): Promise<WatchlistSummary | null> {
+  try {
+    return await updateWatchlists(async (data) => {
+      const watchlist = findWatchlist(data, name);
+      if (politicians.length === 0 && tickers.length === 0) {
+        data.watchlists = data.watchlists.filter((candidate) => candidate !== watchlist);
+        return null;
+      }
+
+      const removals: Array<[WatchlistEntry[], string[], (query: string) => Promise<string>]> = [
+        [watchlist.politicians, politicians, getPoliticianId],
+        [watchlist.tickers, tickers, getIssuerId],
+      ];
+      for (const [entries, queries, resolve] of removals) {
+        for (const query of queries) {
+          const index = await findEntryIndex(entries, query, resolve);
+          if (index === -1) {
+            throw new Error(`"${query}" is not on the watchlist`);
+          }
+          entries.splice(index, 1);
+        }
+      }
+      return summarize(watchlist);
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to remove from watchlist "${name}": ${errorMessage}`);
+  }
+}
+
+/**
+ * Get the trades disclosed since a watchlist was last checked
+ * Reads each watched politician's and ticker's trades newest disclosure first, merges them
+ * (a watched politician trading a watched ticker is reported once) and drops trades already reported.
+ * The first check covers the last 30 days of disclosures (the poller's first, the last 3 days).
+ * A check that couldn't read every trade in its window (trade limit, or a page that failed to load)
+ * still records the trades it returned, but keeps the window open so the next check reads it again.
+ * @param name - Watchlist name
+ * @param markSeen - Record the returned trades so the next check skips them (default: true)
+ * @param reader - Whose check state to read and update (default: "check")
+ * @returns New trades, newest disclosure first, the disclosure window that was checked and whether it was read in full
+ */
+export async function checkWatchlist(name: string, markSeen: boolean = true, reader: WatchlistReader = "check") {
+  try {
+    return await updateWatchlists(async (data) => {
+      const watchlist = findWatchlist(data, name);
+      const state: CheckState = reader === "notify" ? (watchlist.notify ??= { lastChecked: null, seen: {} }) : watchlist;
+      const checkedAt = new Date();
+      const firstCheck = state.lastChecked === null;
+      const since = state.lastChecked
+        ? daysAgo(CHECK_OVERLAP_DAYS, new Date(state.lastChecked))
+        : daysAgo(reader === "notify" ? FIRST_NOTIFY_DAYS : FIRST_CHECK_DAYS, checkedAt);
+      const range: DateRange = { from: since, to: null, field: "disclosure" };
+
+      const filters = [
+        ...watchlist.politicians.map((entry) => `politician=${entry.id}`),
+        ...watchlist.tickers.map((entry) => `issuer=${entry.id}`),
+      ];
+      const found = new Map<string, TradeWithPrice>();
+      let complete = true;
+      for (const filter of filters) {
+        const url = `${getBaseUrl()}/trades?${[filter, ...buildDateRangeParams(range)].join("&")}`;
+        const { trades, coverage } = await scrapeTradePages(url, { limit: CHECK_TRADE_LIMIT, range });
+        complete = complete && coverage.complete;
+        for (const trade of trades) {
+          found.set(tradeKey(trade), trade);
+        }
+      }
+
+      const newTrades = Array.from(found.entries())
+        .filter(([key]) => !(key in state.seen))
+        .sort(([, a], [, b]) => (b.dates.disclosureDate || "").localeCompare(a.dates.disclosureDate || ""));
+
+      if (markSeen) {
+        if (complete) {
+          // Trades disclosed before the next check's window can't come back, so their keys are dropped
+          state.seen = Object.fromEntries(
+            Object.entries(state.seen).filter(([, disclosureDate]) => disclosureDate !== null && disclosureDate >= since)
+          );
+        }
+        for (const [key, trade] of newTrades) {
+          state.seen[key] = trade.dates.disclosureDate;
+        }
+        if (complete) {
+          state.lastChecked = checkedAt.toISOString();
+        }
+      }
+
+      return {
+        watchlist: summarize(watchlist),
+        firstCheck,
+        since,
+        checkedAt: checkedAt.toISOString(),
+        complete,
+        totalNewTrades: newTrades.length,
+        trades: newTrades.map(([, trade], position) => ({ ...trade, index: position + 1 })),
+      };
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to check watchlist "${name}": ${errorMessage}`);
+  }
+}
@@ -1,5 +1,6 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
+import { fetchHtml } from "./http-client.js";
 
 /**
  * Interface for scraped webpage data
@@ -34,18 +35,7 @@ export async function scrapeWebPage(
 ): Promise<ScrapedData> {
   try {
     // Fetch the webpage
-    const response = await axios.get(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.5",
-      },
-      timeout: 30000, // 30 second timeout
-    });
-
-    const html = response.data;
+    const html = await fetchHtml(url);
     const $ = cheerio.load(html);
 
     // Extract title
@@ -112,15 +102,7 @@ export async function extractLinks(
   filterPattern?: string
 ): Promise<LinkData[]> {
   try {
-    const response = await axios.get(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-      timeout: 30000,
-    });
-
-    const $ = cheerio.load(response.data);
+    const $ = cheerio.load(await fetchHtml(url));
     const links: LinkData[] = [];
     const seenHrefs = new Set<string>();
 
@@ -176,15 +158,7 @@ export async function extractText(
   selector: string
 ): Promise<string[]> {
   try {
-    const response = await axios.get(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      },
-      timeout: 30000,
-    });
-
-    const $ = cheerio.load(response.data);
+    const $ = cheerio.load(await fetchHtml(url));
     const texts: string[] = [];
 
     $(selector).each((_, element) => {
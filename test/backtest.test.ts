@@ -0,0 +1,83 @@
+/**
+ * Offline tests for copy-trading backtests
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { daysAgo } from "../src/dates.js";
+import { runBacktest } from "../src/backtest.js";
+
+/**
+ * Daily closes for the last 120 days, compounding at a fixed rate per day
+ */
+function dailyCloses(dailyRate: number): Array<{ date: string; close: number }> {
+  return Array.from({ length: 121 }, (_, day) => ({ date: daysAgo(120 - day), close: 100 * (1 + dailyRate) ** day }));
+}
+
+const near = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 0.01, `${actual} != ${expected}`);
+
+useFixtureEnvironment({
+  setup: ({ dataDir }) => {
+    // NVDA gains 1% a day, AAPL loses 0.5% a day and the benchmark gains 0.1% a day
+    const priceDir = join(dataDir, "prices");
+    mkdirSync(priceDir);
+    writeFileSync(join(priceDir, "NVDA.json"), JSON.stringify(dailyCloses(0.01)));
+    writeFileSync(join(priceDir, "AAPL.json"), JSON.stringify(dailyCloses(-0.005)));
+    writeFileSync(join(priceDir, "SPY.json"), JSON.stringify(dailyCloses(0.001)));
+  },
+});
+
+test("mirrors a politician's buys for the holding period", async () => {
+  const result = await runBacktest({ strategy: "mirror_politician", politician: "Nancy Pelosi", entry: "trade", holdDays: 10 }, 60);
+
+  // NVDA bought 20 days ago and held 10 days; the AAPL sale opens nothing
+  assert.deepEqual(result.rebalances, [
+    { date: daysAgo(20), holdings: ["NVDA"], turnoverPct: 100 },
+    { date: daysAgo(10), holdings: [], turnoverPct: 100 },
+  ]);
+  near(result.finalEquity, 10000 * 1.01 ** 10);
+  assert.equal(result.totalTurnoverPct, 200);
+  assert.equal(result.maxDrawdown.pct, 0);
+  assert.deepEqual(result.window, { from: daysAgo(60), to: daysAgo(0) });
+
+  near(result.benchmark.finalEquity, 10000 * 1.001 ** 60);
+  assert.equal(result.excessReturnPct, parseFloat((result.totalReturnPct - result.benchmark.totalReturnPct).toFixed(2)));
+  assert.ok(result.cagrPct! > result.benchmark.cagrPct!);
+
+  const curve = result.equityCurve;
+  assert.equal(curve[0].date, daysAgo(60));
+  assert.equal(curve[curve.length - 1].date, daysAgo(0));
+  assert.ok(curve.length >= 9 && curve.length <= 11);
+});
+
+test("rebalances into what a party is net buying", async () => {
+  const result = await runBacktest({ strategy: "party_momentum", party: "REPUBLICAN", topN: 1, rebalanceDays: 7 }, 30);
+
+  // Crenshaw's AAPL buy is disclosed 10 days ago, Tuberville's NVDA buy 5 days ago
+  assert.deepEqual(
+    result.rebalances.map((rebalance) => [rebalance.date, rebalance.holdings]),
+    [
+      [daysAgo(30), []],
+      [daysAgo(23), []],
+      [daysAgo(16), []],
+      [daysAgo(9), ["AAPL"]],
+      [daysAgo(2), ["NVDA"]],
+    ]
+  );
+  near(result.finalEquity, 10000 * 0.995 ** 7 * 1.01 ** 2);
+  assert.equal(result.maxDrawdown.pct, parseFloat(((0.995 ** 7 - 1) * 100).toFixed(2)));
+  assert.equal(result.maxDrawdown.troughDate, daysAgo(2));
+  assert.equal(result.totalTurnoverPct, 200);
+  assert.equal(result.investedDaysPct, parseFloat(((10 / 31) * 100).toFixed(2)));
+});
+
+test("rejects backtests it can't run", async () => {
+  await assert.rejects(runBacktest({ strategy: "buy_momentum", benchmark: "QQQ" }, 30), /No price history for benchmark QQQ/);
+  await assert.rejects(runBacktest({ strategy: "mirror_politician" }, 30), /politician is required/);
+  await assert.rejects(runBacktest({ strategy: "party_momentum", topN: 0 }, 30), /topN must be a whole number of at least 1/);
+  await assert.rejects(runBacktest({ strategy: "buy_momentum" }, { period: "until 2024-01-01" }), /needs a start date/);
+});
@@ -0,0 +1,90 @@
+/**
+ * Offline tests for the command-line interface
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { runCli, renderTable } from "../src/cli.js";
+
+const fixture = useFixtureEnvironment();
+
+async function cli(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = "";
+  let stderr = "";
+  const serve = async () => {
+    throw new Error("serve should not be called");
+  };
+  const code = await runCli(argv, serve, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+test("prints a politician's trades as a table", async () => {
+  const { code, stdout } = await cli("trades", "--politician", "Pelosi", "--days", "90", "--format", "table");
+  assert.equal(code, 0);
+
+  const lines = stdout.split("\n");
+  assert.match(lines[0], /^#\s+Traded\s+Disclosed\s+Politician/);
+  assert.match(lines[1], /^-\s+-{10}/);
+  assert.equal(lines.filter((line) => line.includes("Nancy Pelosi")).length, 2);
+  assert.match(stdout, /2 trades, .* by trade date, coverage complete/);
+});
+
+test("prints CSV and JSON with the paging hint on stderr", async () => {
+  const csv = await cli("trades", "--type", "buy", "--limit", "1", "--format", "csv");
+  assert.equal(csv.code, 0);
+  const rows = csv.stdout.trimEnd().split("\r\n");
+  assert.equal(rows.length, 2);
+  assert.ok(rows[0].startsWith("index,politician_id,politician_name"));
+  assert.match(csv.stderr, /More trades available: add --cursor \S+/);
+
+  const json = await cli("trades", "--symbol", "NVDA", "--chamber", "senate", "--format", "json");
+  const result = JSON.parse(json.stdout);
+  assert.equal(result.filters.chamber, "SENATE");
+  assert.deepEqual(result.trades.map((trade: any) => trade.politician.name), ["Tommy Tuberville"]);
+});
+
+test("writes trades to a file with --output", async () => {
+  const file = join(fixture.dataDir, "pelosi.ndjson");
+  const { code, stdout } = await cli("trades", "--politician", "P000197", "--output", file);
+  assert.equal(code, 0);
+  assert.match(stdout, /^Wrote 2 trades to .*pelosi\.ndjson \(ndjson\)/);
+  assert.equal(readFileSync(file, "utf8").trim().split("\n").length, 2);
+});
+
+test("prints stats and momentum", async () => {
+  const stats = await cli("stats", "--symbol", "NVDA");
+  assert.equal(stats.code, 0);
+  assert.match(stats.stdout, /Buys \/ sells\s+2 \/ 0/);
+  assert.match(stats.stdout, /Most active traders[\s\S]*Tommy Tuberville/);
+
+  const momentum = await cli("momentum", "--format", "json", "--limit", "3");
+  assert.equal(JSON.parse(momentum.stdout).assets[0].ticker, "NVDA:US");
+
+  const party = await cli("party-momentum");
+  assert.match(party.stdout, /Democrat favorites[\s\S]*Republican favorites/);
+});
+
+test("reports bad input with a non-zero exit code", async () => {
+  const unknown = await cli("bogus");
+  assert.equal(unknown.code, 2);
+  assert.match(unknown.stderr, /Unknown command: bogus[\s\S]*Usage:/);
+
+  const badDays = await cli("trades", "--days", "soon");
+  assert.equal(badDays.code, 1);
+  assert.equal(badDays.stderr, "Error: days must be a positive whole number\n");
+
+  assert.equal((await cli("stats", "--days", "30")).stderr, "Error: stats needs exactly one of --politician or --symbol\n");
+  assert.match((await cli("trades", "--nope")).stderr, /Unknown option '--nope'/);
+  assert.match((await cli("help")).stdout, /^Usage: mcp-capitol-trades/);
+});
+
+test("right-aligns numeric columns", () => {
+  assert.equal(renderTable(["Name", "Trades"], [["NVDA", 2], ["AAPL", 10]]), "Name  Trades\n----  ------\nNVDA       2\nAAPL      10\n");
+});
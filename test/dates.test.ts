@@ -0,0 +1,55 @@
+/**
+ * Unit tests for date window parsing
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { daysAgo, parseDateBound, parsePeriod, resolveDateRange } from "../src/dates.js";
+
+// A fixed reference date, so relative windows are predictable
+const now = new Date("2024-05-15T12:00:00Z");
+
+test("parses quarters, halves, months and years into their first and last days", () => {
+  assert.deepEqual([parseDateBound("Q2 2024", "start", now), parseDateBound("Q2 2024", "end", now)], ["2024-04-01", "2024-06-30"]);
+  assert.equal(parseDateBound("2024 q4", "end", now), "2024-12-31");
+  assert.deepEqual([parseDateBound("H1 2024", "start", now), parseDateBound("H1 2024", "end", now)], ["2024-01-01", "2024-06-30"]);
+  assert.equal(parseDateBound("H2 2023", "start", now), "2023-07-01");
+  assert.equal(parseDateBound("2024-02", "end", now), "2024-02-29");
+  assert.deepEqual([parseDateBound("Mar 2024", "start", now), parseDateBound("March 2024", "end", now)], ["2024-03-01", "2024-03-31"]);
+  assert.deepEqual([parseDateBound("2023", "start", now), parseDateBound("2023", "end", now)], ["2023-01-01", "2023-12-31"]);
+  assert.equal(parseDateBound("2024-03-15", "end", now), "2024-03-15");
+  assert.equal(parseDateBound("15 Mar 2024", "start", now), "2024-03-15");
+  assert.equal(parseDateBound("today", "end", now), "2024-05-15");
+});
+
+test("rejects dates that don't exist or can't be parsed", () => {
+  assert.throws(() => parseDateBound("2024-02-30", "start", now), /Invalid date "2024-02-30"/);
+  assert.throws(() => parseDateBound("2024-13", "start", now), /Invalid month/);
+  assert.throws(() => parseDateBound("Q5 2024", "start", now), /Invalid date/);
+  assert.throws(() => parseDateBound("next week", "start", now), /Use YYYY-MM-DD/);
+});
+
+test("parses since, until, explicit ranges and relative periods", () => {
+  assert.deepEqual(parsePeriod("since 2023-01-01", now), { from: "2023-01-01", to: null });
+  assert.deepEqual(parsePeriod("until 2024-06-30", now), { from: null, to: "2024-06-30" });
+  assert.deepEqual(parsePeriod("before Q2 2024", now), { from: null, to: "2024-06-30" });
+  assert.deepEqual(parsePeriod("2024-01-01 to 2024-03-31", now), { from: "2024-01-01", to: "2024-03-31" });
+  assert.deepEqual(parsePeriod("2024-01..2024-03", now), { from: "2024-01-01", to: "2024-03-31" });
+  assert.deepEqual(parsePeriod("Q1 2024 through Q2 2024", now), { from: "2024-01-01", to: "2024-06-30" });
+  assert.deepEqual(parsePeriod("last 45 days", now), { from: "2024-03-31", to: null });
+  assert.deepEqual(parsePeriod("Q2 2024", now), { from: "2024-04-01", to: "2024-06-30" });
+  assert.throws(() => parsePeriod("since whenever", now), /Invalid date "whenever"/);
+});
+
+test("resolves days, periods and explicit bounds into a date range", () => {
+  assert.deepEqual(resolveDateRange(30, now), { from: daysAgo(30, now), to: null, field: "trade", days: 30 });
+  assert.deepEqual(resolveDateRange({}, now), { from: daysAgo(90, now), to: null, field: "trade", days: 90 });
+  assert.deepEqual(resolveDateRange({ period: "Q1 2024", dateField: "disclosure" }, now), { from: "2024-01-01", to: "2024-03-31", field: "disclosure" });
+
+  // Explicit bounds override the period's, and any bound overrides days
+  assert.deepEqual(resolveDateRange({ period: "2024", from: "2024-06" }, now), { from: "2024-06-01", to: "2024-12-31", field: "trade" });
+  assert.deepEqual(resolveDateRange({ days: 30, to: "2024-01-31" }, now), { from: null, to: "2024-01-31", field: "trade" });
+
+  assert.throws(() => resolveDateRange({ from: "2024-06-01", to: "2024-01-01" }, now), /start 2024-06-01 is after its end 2024-01-01/);
+});
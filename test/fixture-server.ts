@@ -0,0 +1,197 @@
+/**
+ * Local HTTP stand-in for Capitol Trades
+ * Serves the HTML fixtures in test/fixtures, applying the search, filter and paging
+ * query parameters the scrapers send so they can be exercised offline
+ * Detail pages (/trades/{id}, /politicians/{id}, /issuers/{id}) are served from
+ * trade-{id}.html, politician-{id}.html and issuer-{id}.html when that fixture exists
+ */
+
+import { before, after } from "node:test";
+import http from "http";
+import { AddressInfo } from "net";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as cheerio from "cheerio";
+
+const FIXTURES_DIR = new URL("./fixtures/", import.meta.url);
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const DEFAULT_PAGE_SIZE = 12;
+
+export interface FixtureServer {
+  baseUrl: string;
+  requests: URL[];
+  failNext: (pathname: string, failure: FixtureFailure) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * The fixture server and temporary data directory a test file runs against
+ */
+export interface FixtureEnvironment {
+  server: FixtureServer;
+  dataDir: string;
+}
+
+/**
+ * A canned error response served instead of the fixture for the next `times` requests to a path,
+ * after letting the first `after` requests through (e.g., to fail a second page)
+ */
+export interface FixtureFailure {
+  status: number;
+  times?: number;
+  after?: number;
+  retryAfter?: string;
+}
+
+/**
+ * Load a fixture, expanding {{dayMonth:N}} and {{year:N}} into the date N days from today
+ * so fixtures always fall inside relative windows like "last 90 days"
+ */
+export function loadFixture(name: string, now: Date = new Date()): string {
+  const html = readFileSync(new URL(name, FIXTURES_DIR), "utf8");
+  return html.replace(/\{\{(dayMonth|year):(-?\d+)\}\}/g, (_, part: string, offset: string) => {
+    const date = new Date(now.getTime() + parseInt(offset, 10) * 24 * 60 * 60 * 1000);
+    return part === "year"
+      ? String(date.getUTCFullYear())
+      : `${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()]}`;
+  });
+}
+
+function matchesSearch($: cheerio.CheerioAPI, element: any, search: string | null): boolean {
+  return !search || $(element).text().toLowerCase().includes(search.toLowerCase());
+}
+
+function renderTrades(url: URL, maxPageSize: number): string {
+  const $ = cheerio.load(loadFixture("trades.html"));
+  const politician = url.searchParams.get("politician");
+  const issuer = url.searchParams.get("issuer");
+  const party = url.searchParams.get("party");
+  const txTypes = url.searchParams.get("txType")?.split(",") ?? null;
+  const chamber = url.searchParams.get("chamber");
+  const owners = url.searchParams.get("owner")?.split(",") ?? null;
+
+  const rows = $("tbody tr").toArray().filter((row) => {
+    const $row = $(row);
+    if (politician && !$row.find(`a[href="/politicians/${politician}"]`).length) return false;
+    if (issuer && !$row.find(`a[href="/issuers/${issuer}"]`).length) return false;
+    if (party && !$row.find(".party").text().toLowerCase().includes(party)) return false;
+    if (txTypes && !txTypes.includes($row.find(".tx-type").text().trim().toLowerCase())) return false;
+    if (chamber && $row.find(".chamber").text().trim().toLowerCase() !== chamber) return false;
+    if (owners && !owners.includes($row.find(".cell--owner").text().trim().toLowerCase())) return false;
+    return true;
+  });
+
+  const page = parseInt(url.searchParams.get("page") || "1", 10);
+  const pageSize = Math.min(parseInt(url.searchParams.get("pageSize") || String(DEFAULT_PAGE_SIZE), 10), maxPageSize);
+  const pageRows = rows.slice((page - 1) * pageSize, page * pageSize);
+
+  $("tbody").empty().append(pageRows);
+  return $.html();
+}
+
+function renderSearchPage(fixture: string, itemSelector: string, url: URL): string {
+  const $ = cheerio.load(loadFixture(fixture));
+  const search = url.searchParams.get("search");
+  $(itemSelector).each((_, element) => {
+    if (!matchesSearch($, element, search)) {
+      $(element).remove();
+    }
+  });
+  return $.html();
+}
+
+/**
+ * Start the stand-in server on a random local port
+ * @param options.maxPageSize - Cap on the trades served per page, to spread the fixture over several pages
+ */
+export async function startFixtureServer(options: { maxPageSize?: number } = {}): Promise<FixtureServer> {
+  const maxPageSize = options.maxPageSize ?? Infinity;
+  const requests: URL[] = [];
+  // Queued responses per path: a failure to serve, or null to serve the fixture
+  const failures = new Map<string, Array<FixtureFailure | null>>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    requests.push(url);
+
+    const failure = failures.get(url.pathname)?.shift();
+    if (failure) {
+      const headers: Record<string, string> = { "Content-Type": "text/plain" };
+      if (failure.retryAfter !== undefined) {
+        headers["Retry-After"] = failure.retryAfter;
+      }
+      res.writeHead(failure.status, headers);
+      res.end("Simulated failure");
+      return;
+    }
+
+    let body: string | null = null;
+    const detailPage = url.pathname.match(/^\/(trade|politician|issuer)s\/([^/]+)$/);
+    const detailFixture = detailPage ? `${detailPage[1]}-${detailPage[2]}.html` : null;
+    if (url.pathname === "/trades") {
+      body = renderTrades(url, maxPageSize);
+    } else if (detailFixture && existsSync(new URL(detailFixture, FIXTURES_DIR))) {
+      body = loadFixture(detailFixture);
+    } else if (url.pathname === "/issuers") {
+      body = renderSearchPage("issuers.html", "tbody tr", url);
+    } else if (url.pathname === "/politicians") {
+      body = renderSearchPage("politicians.html", ".index-card-link", url);
+    }
+
+    if (body === null) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(body);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    failNext: (pathname, failure) => {
+      const queue = failures.get(pathname) || [];
+      for (let i = 0; i < (failure.after ?? 0); i++) {
+        queue.push(null);
+      }
+      for (let i = 0; i < (failure.times ?? 1); i++) {
+        queue.push(failure);
+      }
+      failures.set(pathname, queue);
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+/**
+ * Register before/after hooks that start a fixture server and a temporary data directory and point
+ * the scrapers at them (CAPITOL_TRADES_BASE_URL, CAPITOL_TRADES_DATA_DIR, no rate limit), then clean up
+ * Call at the top of a test file; the fields are filled in once the before hook has run
+ * @param options.maxPageSize - Passed to startFixtureServer
+ * @param options.setup - Further setup that needs the environment (a file's own before hooks run concurrently with this one)
+ */
+export function useFixtureEnvironment(
+  options: { maxPageSize?: number; setup?: (environment: FixtureEnvironment) => Promise<void> | void } = {}
+): FixtureEnvironment {
+  const environment = {} as FixtureEnvironment;
+
+  before(async () => {
+    environment.server = await startFixtureServer({ maxPageSize: options.maxPageSize });
+    environment.dataDir = mkdtempSync(join(tmpdir(), "capitol-trades-test-"));
+    process.env.CAPITOL_TRADES_BASE_URL = environment.server.baseUrl;
+    process.env.CAPITOL_TRADES_DATA_DIR = environment.dataDir;
+    process.env.CAPITOL_TRADES_RATE_LIMIT = "0";
+    await options.setup?.(environment);
+  });
+  after(async () => {
+    await environment.server.close();
+    rmSync(environment.dataDir, { recursive: true, force: true });
+  });
+
+  return environment;
+}
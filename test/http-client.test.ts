@@ -0,0 +1,89 @@
+/**
+ * Offline tests for the shared HTTP client
+ * Run with: npm test
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { fetchHtml, parseRetryAfter } from "../src/http-client.js";
+import { scrapeTradePages } from "../src/scraper.js";
+
+const fixture = useFixtureEnvironment();
+
+const countRequests = (pathname: string) => fixture.server.requests.filter((url) => url.pathname === pathname).length;
+
+before(() => {
+  process.env.CAPITOL_TRADES_RETRY_BASE_MS = "10";
+  process.env.CAPITOL_TRADES_MAX_RETRIES = "3";
+});
+
+test("retries transient server errors until the page loads", async () => {
+  const start = countRequests("/issuers");
+  fixture.server.failNext("/issuers", { status: 503, times: 2 });
+
+  const html = await fetchHtml(`${fixture.server.baseUrl}/issuers`);
+
+  assert.match(html, /NVIDIA/);
+  assert.equal(countRequests("/issuers") - start, 3);
+});
+
+test("waits for Retry-After on 429 responses", async () => {
+  fixture.server.failNext("/issuers", { status: 429, retryAfter: "1" });
+
+  const started = Date.now();
+  await fetchHtml(`${fixture.server.baseUrl}/issuers`);
+
+  assert.ok(Date.now() - started >= 900);
+});
+
+test("gives up after the configured number of retries", async () => {
+  const start = countRequests("/issuers");
+  fixture.server.failNext("/issuers", { status: 500, times: 5 });
+
+  await assert.rejects(fetchHtml(`${fixture.server.baseUrl}/issuers`, { maxRetries: 2 }), /status code 500/);
+  assert.equal(countRequests("/issuers") - start, 3);
+
+  // Drain the failures this test left queued
+  await fetchHtml(`${fixture.server.baseUrl}/issuers`);
+});
+
+test("does not retry client errors", async () => {
+  const start = countRequests("/missing");
+
+  await assert.rejects(fetchHtml(`${fixture.server.baseUrl}/missing`), /status code 404/);
+  assert.equal(countRequests("/missing") - start, 1);
+});
+
+test("spaces requests out to the configured rate", async () => {
+  process.env.CAPITOL_TRADES_RATE_LIMIT = "10";
+  process.env.CAPITOL_TRADES_RATE_BURST = "1";
+  try {
+    const started = Date.now();
+    for (let i = 0; i < 4; i++) {
+      await fetchHtml(`${fixture.server.baseUrl}/issuers`);
+    }
+    // The first request spends the burst; the next three each wait ~100ms for a token
+    assert.ok(Date.now() - started >= 250);
+  } finally {
+    process.env.CAPITOL_TRADES_RATE_LIMIT = "0";
+    delete process.env.CAPITOL_TRADES_RATE_BURST;
+  }
+});
+
+test("a transient failure on the first trades page no longer fails the scrape", async () => {
+  fixture.server.failNext("/trades", { status: 502 });
+
+  const { trades, coverage } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`, { maxPages: 1 });
+
+  assert.equal(trades.length, 6);
+  assert.equal(coverage.stopReason, "maxPages");
+});
+
+test("parses Retry-After as seconds or an HTTP date", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+  assert.equal(parseRetryAfter("2", now), 2000);
+  assert.equal(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now), 5000);
+  assert.equal(parseRetryAfter("soon", now), null);
+  assert.equal(parseRetryAfter(undefined, now), null);
+});
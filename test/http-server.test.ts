@@ -0,0 +1,146 @@
+/**
+ * Offline tests for serving MCP over HTTP/SSE
+ * Run with: npm test
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server as HttpServer } from "http";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { startHttpServer } from "../src/http-server.js";
+import { createServer } from "../src/index.js";
+
+const TOKEN = "test-token";
+const ALLOWED_ORIGIN = "https://dashboard.example";
+
+useFixtureEnvironment();
+
+let httpServer: HttpServer;
+let baseUrl: string;
+
+before(async () => {
+  httpServer = await startHttpServer(createServer, { port: 0, authToken: TOKEN, corsOrigins: [ALLOWED_ORIGIN] });
+  baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  httpServer.closeAllConnections();
+  await new Promise((resolve) => httpServer.close(resolve));
+});
+
+const authHeaders = { Authorization: `Bearer ${TOKEN}` };
+
+/**
+ * Open an SSE session and read its events one at a time
+ */
+async function openSession() {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/sse`, { headers: authHeaders, signal: controller.signal });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "text/event-stream");
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const nextEvent = async (): Promise<{ event: string; data: string }> => {
+    while (!buffer.includes("\n\n")) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error("SSE stream ended");
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+    const end = buffer.indexOf("\n\n");
+    const chunk = buffer.slice(0, end);
+    buffer = buffer.slice(end + 2);
+    const field = (name: string) => chunk.match(new RegExp(`^${name}: (.*)$`, "m"))?.[1] ?? "";
+    return { event: field("event"), data: field("data") };
+  };
+
+  const endpoint = await nextEvent();
+  assert.equal(endpoint.event, "endpoint");
+  const messagesUrl = new URL(endpoint.data, baseUrl).href;
+
+  let nextId = 1;
+  const request = async (method: string, params: Record<string, unknown> = {}): Promise<any> => {
+    const id = nextId++;
+    const posted = await fetch(messagesUrl, {
+      method: "POST",
+      headers: { ...authHeaders, "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id, method, params }),
+    });
+    assert.equal(posted.status, 202);
+    const message = JSON.parse((await nextEvent()).data);
+    assert.equal(message.id, id);
+    return message.result;
+  };
+
+  await request("initialize", {
+    protocolVersion: "2024-11-05",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  });
+
+  return { messagesUrl, request, close: () => controller.abort() };
+}
+
+test("serves tools to concurrent sessions", async () => {
+  const first = await openSession();
+  const second = await openSession();
+  try {
+    const { tools } = await first.request("tools/list");
+    assert.ok(tools.some((tool: { name: string }) => tool.name === "get_politician_trades"));
+
+    const result = await second.request("tools/call", { name: "search_politicians", arguments: { name: "Pelosi" } });
+    const body = JSON.parse(result.content[0].text);
+    assert.equal(body.politicians[0].id, "P000197");
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    assert.equal(health.sessions, 2);
+  } finally {
+    first.close();
+    second.close();
+  }
+});
+
+test("requires the bearer token", async () => {
+  const missing = await fetch(`${baseUrl}/sse`);
+  assert.equal(missing.status, 401);
+  assert.equal(missing.headers.get("www-authenticate"), "Bearer");
+
+  const wrong = await fetch(`${baseUrl}/sse`, { headers: { Authorization: "Bearer nope" } });
+  assert.equal(wrong.status, 401);
+
+  const session = await openSession();
+  try {
+    const unauthenticatedPost = await fetch(session.messagesUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 99, method: "tools/list" }),
+    });
+    assert.equal(unauthenticatedPost.status, 401);
+  } finally {
+    session.close();
+  }
+});
+
+test("answers CORS preflights for allowed origins only", async () => {
+  const allowed = await fetch(`${baseUrl}/messages`, { method: "OPTIONS", headers: { Origin: ALLOWED_ORIGIN } });
+  assert.equal(allowed.status, 204);
+  assert.equal(allowed.headers.get("access-control-allow-origin"), ALLOWED_ORIGIN);
+  assert.match(allowed.headers.get("access-control-allow-headers") || "", /Authorization/);
+
+  const other = await fetch(`${baseUrl}/messages`, { method: "OPTIONS", headers: { Origin: "https://elsewhere.example" } });
+  assert.equal(other.headers.get("access-control-allow-origin"), null);
+});
+
+test("rejects messages for unknown sessions", async () => {
+  const response = await fetch(`${baseUrl}/messages?sessionId=missing`, {
+    method: "POST",
+    headers: { ...authHeaders, "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+  });
+  assert.equal(response.status, 404);
+});
@@ -0,0 +1,61 @@
+/**
+ * Offline tests for STOCK Act late-filing checks
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { daysAgo } from "../src/dates.js";
+import { getLateDisclosures } from "../src/late-disclosures.js";
+
+useFixtureEnvironment();
+
+test("flags trades disclosed after 45 days and ranks politicians", async () => {
+  const result = await getLateDisclosures(null, null, null, 365);
+  assert.equal(result.thresholdDays, 45);
+  assert.equal(result.totalTrades, 6);
+  assert.equal(result.totalLateTrades, 2);
+  assert.equal(result.lateRate, 0.33);
+  assert.equal(result.medianGapDays, 30);
+  assert.equal(result.politiciansWithLateTrades, 2);
+
+  assert.deepEqual(
+    result.lateDisclosures.map((trade) => [trade.politician.name, trade.reportingGapDays, trade.daysLate, trade.reportingGapTier]),
+    [
+      ["Ro Khanna", 85, 40, 4],
+      ["Dan Crenshaw", 60, 15, 3],
+    ]
+  );
+  assert.equal(result.lateDisclosures[1].tradeDate, daysAgo(70));
+
+  assert.deepEqual(result.politicians.slice(0, 2).map((politician) => politician.politician), ["Ro Khanna", "Dan Crenshaw"]);
+  const pelosi = result.politicians.find((politician) => politician.politicianId === "P000197")!;
+  assert.deepEqual(
+    { trades: pelosi.trades, lateTrades: pelosi.lateTrades, lateRate: pelosi.lateRate, medianGapDays: pelosi.medianGapDays, maxGapDays: pelosi.maxGapDays },
+    { trades: 2, lateTrades: 0, lateRate: 0, medianGapDays: 22.5, maxGapDays: 25 }
+  );
+});
+
+test("filters by party and chamber and takes a custom threshold", async () => {
+  const houseRepublicans = await getLateDisclosures(null, "REPUBLICAN", "HOUSE", 365);
+  assert.deepEqual(houseRepublicans.filters, { politician: null, party: "REPUBLICAN", chamber: "HOUSE" });
+  assert.deepEqual(houseRepublicans.politicians.map((politician) => politician.politician), ["Dan Crenshaw"]);
+  assert.equal(houseRepublicans.totalLateTrades, 1);
+
+  const strict = await getLateDisclosures(null, null, null, 365, 50, undefined, 20);
+  assert.equal(strict.totalLateTrades, 4);
+});
+
+test("reports whether a politician's reporting gaps are shrinking", async () => {
+  // The window's halves split 20 days ago: the AAPL sale (25-day gap) falls in the first, the NVDA buy (20 days) in the second
+  const result = await getLateDisclosures("Nancy Pelosi", null, null, 40);
+  const trend = result.politicians[0].trend;
+  assert.equal(trend.splitDate, daysAgo(20));
+  assert.deepEqual(trend.earlier, { trades: 1, lateTrades: 0, medianGapDays: 25 });
+  assert.deepEqual(trend.later, { trades: 1, lateTrades: 0, medianGapDays: 20 });
+  assert.equal(trend.direction, "improving");
+
+  const wholeYear = await getLateDisclosures("Nancy Pelosi", null, null, 365);
+  assert.equal(wholeYear.politicians[0].trend.direction, null);
+});
@@ -0,0 +1,154 @@
+/**
+ * Offline tests for watchlist notifications, delivered to a local HTTP receiver
+ * Run with: npm test
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { addToWatchlist, checkWatchlist } from "../src/watchlist.js";
+import { getDeadLetterPath, parseNotificationConfig, runNotificationCycle } from "../src/notifier.js";
+
+interface Received {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const fixture = useFixtureEnvironment();
+
+let receiver: http.Server;
+let receiverUrl: string;
+const received: Received[] = [];
+const flakyFailures = new Map<string, number>();
+
+before(async () => {
+  // /fail always errors, /gone is permanently missing, /flaky fails the first delivery of each trade
+  receiver = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(raw);
+      received.push({ path: req.url || "", headers: req.headers, body });
+      if (req.url === "/fail") {
+        res.writeHead(500).end();
+      } else if (req.url === "/gone") {
+        res.writeHead(404).end();
+      } else if (req.url === "/flaky" && !flakyFailures.has(body.trade.detailUrl)) {
+        flakyFailures.set(body.trade.detailUrl, 1);
+        res.writeHead(503, { "Retry-After": "0" }).end();
+      } else {
+        res.writeHead(200).end("ok");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => receiver.close(resolve));
+});
+
+const receivedAt = (path: string) => received.filter((request) => request.path === path);
+
+test("delivers new watchlist trades to every target, retrying and dead-lettering failures", async () => {
+  await addToWatchlist("alerts", ["Nancy Pelosi"], []);
+  const scriptOutput = join(fixture.dataDir, "script-output.ndjson");
+  const config = parseNotificationConfig({
+    maxRetries: 2,
+    retryBaseMs: 1,
+    targets: [
+      { format: "json", url: `${receiverUrl}/hook`, headers: { "X-Webhook-Token": "secret" } },
+      { format: "slack", url: `${receiverUrl}/slack`, watchlists: ["alerts"] },
+      { format: "json", url: `${receiverUrl}/flaky` },
+      { format: "json", url: `${receiverUrl}/fail` },
+      { format: "json", url: `${receiverUrl}/gone` },
+      { format: "json", url: `${receiverUrl}/other`, watchlists: ["someone-else"] },
+      {
+        format: "script",
+        command: process.execPath,
+        args: ["-e", `let s="";process.stdin.on("data",c=>s+=c).on("end",()=>require("fs").appendFileSync(${JSON.stringify(scriptOutput)},s+"\\n"))`],
+      },
+    ],
+  });
+
+  const result = await runNotificationCycle(config);
+  assert.deepEqual(result.watchlists, [{ name: "alerts", newTrades: 2 }]);
+  assert.equal(result.delivered, 8);
+  assert.equal(result.failed, 4);
+
+  // Generic JSON: the TradeWithPrice the tools return, oldest disclosure first
+  const hook = receivedAt("/hook");
+  assert.equal(hook.length, 2);
+  assert.equal(hook[0].headers["x-webhook-token"], "secret");
+  assert.equal(hook[0].body.event, "trade.disclosed");
+  assert.equal(hook[0].body.watchlist, "alerts");
+  assert.equal(hook[1].body.trade.detailUrl, `${fixture.server.baseUrl}/trades/20003791001`);
+  assert.equal(hook[1].body.trade.politician.id, "P000197");
+  assert.equal(hook[1].body.trade.transaction.midpoint, 3000000);
+  assert.ok(hook[0].body.trade.dates.disclosureDate <= hook[1].body.trade.dates.disclosureDate);
+
+  const slack = receivedAt("/slack");
+  assert.deepEqual(Object.keys(slack[1].body), ["text"]);
+  assert.match(slack[1].body.text, /\*Nancy Pelosi\* \(D-House-CA\): buy NVIDIA Corp \(NVDA:US\), 1M–5M \(spouse\)/);
+
+  assert.equal(receivedAt("/flaky").length, 4);
+  assert.equal(receivedAt("/fail").length, 6);
+  assert.equal(receivedAt("/gone").length, 2);
+  assert.equal(receivedAt("/other").length, 0);
+
+  const scripted = readFileSync(scriptOutput, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+  assert.deepEqual(scripted.map((payload) => payload.trade.detailUrl), hook.map((request) => request.body.trade.detailUrl));
+
+  const deadLetters = readFileSync(getDeadLetterPath(), "utf8").trim().split("\n").map((line) => JSON.parse(line));
+  assert.equal(deadLetters.length, 4);
+  assert.deepEqual(deadLetters.map((entry) => [entry.target.url.replace(receiverUrl, ""), entry.attempts]), [
+    ["/fail", 3],
+    ["/gone", 1],
+    ["/fail", 3],
+    ["/gone", 1],
+  ]);
+  assert.match(deadLetters[0].error, /500/);
+  assert.equal(deadLetters[0].payload.trade.politician.name, "Nancy Pelosi");
+
+  // Trades are only announced once
+  const before = received.length;
+  const second = await runNotificationCycle(config);
+  assert.equal(second.delivered + second.failed, 0);
+  assert.equal(received.length, before);
+});
+
+test("keeps its own seen trades and starts a new watchlist from recent disclosures", async () => {
+  // The poller already announced Pelosi's trades, but check_watchlist hasn't reported them yet
+  const interactive = await checkWatchlist("alerts");
+  assert.equal(interactive.totalNewTrades, 2);
+
+  // Crenshaw's only trade was disclosed 10 days ago: too old for the poller's first cycle
+  await addToWatchlist("older", ["C001120"], []);
+  const config = parseNotificationConfig({ targets: [{ format: "json", url: `${receiverUrl}/older`, watchlists: ["older"] }] });
+  const first = await runNotificationCycle(config);
+  assert.deepEqual(first.watchlists, [{ name: "older", newTrades: 0 }]);
+  assert.equal(receivedAt("/older").length, 0);
+
+  // check_watchlist's first check still looks back 30 days
+  assert.equal((await checkWatchlist("older")).totalNewTrades, 1);
+});
+
+test("rejects invalid notification configs", () => {
+  assert.throws(() => parseNotificationConfig({ targets: [] }), /at least one notification target/);
+  assert.throws(() => parseNotificationConfig({ targets: [{ format: "slack" }] }), /targets\[0\] needs an http\(s\) url/);
+  assert.throws(() => parseNotificationConfig({ targets: [{ format: "script" }] }), /targets\[0\] needs a command/);
+  assert.throws(() => parseNotificationConfig({ targets: [{ format: "email" }] }), /format must be/);
+  assert.throws(() => parseNotificationConfig([]), /config must be a JSON object/);
+  assert.throws(() => parseNotificationConfig({ targets: ["notify.sh"] }), /targets\[0\] must be an object/);
+  assert.throws(() => parseNotificationConfig({ targets: [{ format: "script", command: "x", watchlists: "alerts" }] }), /targets\[0\]\.watchlists must be an array/);
+  assert.throws(() => parseNotificationConfig({ targets: [{ format: "script", command: "x", args: "--quiet" }] }), /targets\[0\]\.args must be an array of strings/);
+  assert.throws(() => parseNotificationConfig({ targets: [{ format: "json", url: "https://x", headers: { "X-Retry": 1 } }] }), /targets\[0\]\.headers must be an object of strings/);
+  assert.throws(() => parseNotificationConfig({ intervalMinutes: 0, targets: [{ format: "script", command: "x" }] }), /intervalMinutes/);
+  assert.equal(parseNotificationConfig({ targets: [{ format: "script", command: "notify.sh" }] }).intervalMinutes, 15);
+});
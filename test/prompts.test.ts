@@ -0,0 +1,52 @@
+/**
+ * Offline tests for the MCP prompt templates
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PROMPTS, getPrompt } from "../src/prompts.js";
+import { TOOLS } from "../src/index.js";
+
+const promptText = (name: string, args: Record<string, string>) => {
+  const { messages } = getPrompt(name, args);
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].content.type, "text");
+  return messages[0].content.text as string;
+};
+
+test("fills prompt arguments into the workflow", () => {
+  const text = promptText("politician_trading_profile", { politician: "Nancy Pelosi", days: "180" });
+
+  assert.match(text, /Call get_politician_profile with politician "Nancy Pelosi"/);
+  assert.match(text, /Call get_politician_stats with politician "Nancy Pelosi" and days 180/);
+  assert.match(promptText("weekly_trading_digest", {}), /disclosed in the last 7 days/);
+});
+
+test("calls the tools in a fixed order", () => {
+  const text = promptText("unusual_ticker_activity", { symbol: "NVDA" });
+  const calls = Array.from(text.matchAll(/Call (\w+)/g), (match) => match[1]);
+
+  assert.deepEqual(calls, ["search_issuers", "get_issuer_profile", "get_asset_stats", "get_asset_stats", "get_politician_trades"]);
+});
+
+test("only refers to tools the server provides", () => {
+  const toolNames = new Set(TOOLS.map((tool) => tool.name));
+  const args: Record<string, Record<string, string>> = {
+    politician_trading_profile: { politician: "P000197" },
+    unusual_ticker_activity: { symbol: "NVDA" },
+    weekly_trading_digest: {},
+  };
+
+  for (const prompt of PROMPTS) {
+    for (const [, tool] of promptText(prompt.name, args[prompt.name]).matchAll(/Call (\w+)/g)) {
+      assert.ok(toolNames.has(tool), `${prompt.name} refers to unknown tool ${tool}`);
+    }
+  }
+});
+
+test("rejects missing arguments and unknown prompts", () => {
+  assert.throws(() => getPrompt("politician_trading_profile", {}), /requires the "politician" argument/);
+  assert.throws(() => getPrompt("unusual_ticker_activity", { symbol: "NVDA", days: "soon" }), /days must be a positive whole number/);
+  assert.throws(() => getPrompt("nope"), /Unknown prompt: nope/);
+});
@@ -0,0 +1,53 @@
+/**
+ * Offline tests for the MCP resources
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { RESOURCE_TEMPLATES, readResource } from "../src/resources.js";
+
+useFixtureEnvironment();
+
+async function readJson(uri: string): Promise<any> {
+  const { contents } = await readResource(uri);
+  assert.equal(contents.length, 1);
+  assert.equal(contents[0].uri, uri);
+  assert.equal(contents[0].mimeType, "application/json");
+  return JSON.parse(contents[0].text);
+}
+
+test("declares politician, issuer and latest-trades URI templates", () => {
+  assert.deepEqual(RESOURCE_TEMPLATES.map((template) => template.uriTemplate), [
+    "capitoltrades://politician/{id}/trades",
+    "capitoltrades://politician/{id}/stats",
+    "capitoltrades://issuer/{id}/trades",
+    "capitoltrades://issuer/{id}/stats",
+  ]);
+});
+
+test("reads a politician's trades by ID or name", async () => {
+  const byId = await readJson("capitoltrades://politician/P000197/trades");
+  assert.equal(byId.totalTrades, 2);
+
+  const byName = await readJson("capitoltrades://politician/Nancy%20Pelosi/trades");
+  assert.deepEqual(byName.trades, byId.trades);
+});
+
+test("reads issuer stats by ticker", async () => {
+  const stats = await readJson("capitoltrades://issuer/NVDA/stats");
+  assert.equal(stats.totalTrades, 2);
+  assert.equal(stats.buys, 2);
+});
+
+test("reads the latest disclosed trades", async () => {
+  const latest = await readJson("capitoltrades://trades/latest");
+  assert.equal(latest.filters.window.dateField, "disclosure");
+  assert.equal(latest.totalTrades, 6);
+});
+
+test("rejects unknown and ambiguous resources", async () => {
+  await assert.rejects(readResource("capitoltrades://nothing/here"), /Unknown resource/);
+  await assert.rejects(readResource("capitoltrades://politician/Michael/stats"), /Ambiguous name/);
+});
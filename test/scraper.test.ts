@@ -0,0 +1,380 @@
+/**
+ * Offline tests for the Capitol Trades scraper
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import {
+  scrapeTradePages,
+  getIssuerId,
+  getPoliticianId,
+  searchIssuers,
+  searchPoliticians,
+  getPoliticianTrades,
+  getTopTradedAssets,
+  getPoliticianProfile,
+  getPoliticianStats,
+  getIssuerProfile,
+  getAssetStats,
+  getBuyMomentumAssets,
+  getPartyBuyMomentum,
+  getTradesInRange,
+  getTradeDetail,
+} from "../src/scraper.js";
+import { daysAgo, toIsoDate } from "../src/dates.js";
+
+const fixture = useFixtureEnvironment();
+
+test("parses every field of a trades page row", async () => {
+  const { trades } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`, { maxPages: 1 });
+
+  assert.equal(trades.length, 6);
+  const [first] = trades;
+  assert.deepEqual(first.politician, {
+    id: "P000197",
+    name: "Nancy Pelosi",
+    party: "Democrat",
+    chamber: "House",
+    state: "CA",
+  });
+  assert.deepEqual(first.issuer, { id: "435544", name: "NVIDIA Corp", ticker: "NVDA:US" });
+  assert.equal(first.dates.disclosure, "13:05 Today");
+  assert.equal(first.dates.disclosureDate, toIsoDate(new Date()));
+  assert.equal(first.dates.tradeDate, daysAgo(20));
+  assert.equal(first.dates.reportingGapDays, 20);
+  assert.equal(first.dates.reportingGap, "20 days");
+  assert.deepEqual(first.transaction, {
+    type: "buy",
+    owner: "spouse",
+    size: "1M–5M",
+    minAmount: 1_000_000,
+    maxAmount: 5_000_000,
+    midpoint: 3_000_000,
+    price: "N/A",
+  });
+  assert.equal(first.detailUrl, `${fixture.server.baseUrl}/trades/20003791001`);
+});
+
+test("pages to the end and reports coverage", async () => {
+  const { trades, coverage } = await scrapeTradePages(`${fixture.server.baseUrl}/trades?pageSize=2`);
+
+  assert.equal(trades.length, 6);
+  assert.deepEqual(trades.map((trade) => trade.index), [1, 2, 3, 4, 5, 6]);
+  assert.equal(coverage.complete, true);
+  assert.equal(coverage.stopReason, "end");
+  assert.equal(coverage.pagesFetched, 4);
+  assert.equal(coverage.earliestTradeDate, daysAgo(100));
+  assert.equal(coverage.latestTradeDate, daysAgo(20));
+});
+
+test("flags results cut short by a page budget", async () => {
+  const { trades, coverage } = await scrapeTradePages(`${fixture.server.baseUrl}/trades?pageSize=2`, { maxPages: 2 });
+
+  assert.equal(trades.length, 4);
+  assert.equal(coverage.complete, false);
+  assert.equal(coverage.stopReason, "maxPages");
+});
+
+test("treats a limit that exactly fits the matching trades as complete", async () => {
+  const exact = await scrapeTradePages(`${fixture.server.baseUrl}/trades?pageSize=2`, { limit: 6 });
+  assert.equal(exact.trades.length, 6);
+  assert.deepEqual([exact.coverage.complete, exact.coverage.stopReason], [true, "end"]);
+
+  const short = await scrapeTradePages(`${fixture.server.baseUrl}/trades?pageSize=2`, { limit: 4 });
+  assert.equal(short.trades.length, 4);
+  assert.deepEqual([short.coverage.complete, short.coverage.stopReason], [false, "limit"]);
+
+  const listing = await getPoliticianTrades(null, null, null, [], 90, 5);
+  assert.equal(listing.trades.length, 5);
+  assert.equal(listing.nextCursor, null);
+});
+
+test("reads owner, filing and share details from a trade page", async () => {
+  const detail = await getTradeDetail(`${fixture.server.baseUrl}/trades/20003791001`);
+
+  assert.equal(detail.tradeId, "20003791001");
+  assert.equal(detail.politician.id, "P000197");
+  assert.equal(detail.issuer?.ticker, "NVDA:US");
+  assert.equal(detail.dates.tradeDate, daysAgo(20));
+  assert.equal(detail.dates.reportingGapDays, 20);
+  assert.equal(detail.transaction.owner, "spouse");
+  assert.equal(detail.transaction.type, "buy");
+  assert.equal(detail.transaction.midpoint, 3_000_000);
+  assert.equal(detail.assetType, "Stock Option");
+  assert.equal(detail.shares, 20_000);
+  assert.equal(detail.sharePrice, 135.4);
+  assert.equal(detail.filingUrl, "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2025/20031234.pdf");
+  assert.match(detail.comment || "", /call options/);
+});
+
+test("rejects unknown and malformed trade IDs", async () => {
+  await assert.rejects(getTradeDetail("20003799999"), /Failed to get trade detail for "20003799999".*404/);
+  await assert.rejects(getTradeDetail("not-a-trade"), /Invalid trade "not-a-trade"/);
+});
+
+test("resolves issuer and politician IDs from search pages", async () => {
+  assert.equal(await getIssuerId("NVIDIA"), "435544");
+  assert.equal(await getIssuerId("Microsoft"), "433412");
+  assert.equal(await getPoliticianId("Nancy Pelosi"), "P000197");
+  assert.equal(await getPoliticianId("Tuberville"), "T000278");
+});
+
+test("lists every issuer matching a search with its metadata", async () => {
+  const issuers = await searchIssuers("Alphabet");
+
+  assert.deepEqual(issuers, [
+    { id: "434340", name: "Alphabet Inc", ticker: "GOOGL:US", sector: "Communication Services", country: "US" },
+    { id: "434341", name: "Alphabet Inc", ticker: "GOOG:US", sector: "Communication Services", country: "US" },
+  ]);
+});
+
+test("prefers an exact ticker and rejects ambiguous issuer names", async () => {
+  assert.equal(await getIssuerId("GOOG"), "434341");
+  assert.equal(await getIssuerId("googl"), "434340");
+  assert.equal(await getIssuerId("Apple"), "433382");
+  await assert.rejects(
+    getIssuerId("Alphabet"),
+    /Ambiguous name matches 2 issuers: Alphabet Inc \(434340, GOOGL:US\); Alphabet Inc \(434341, GOOG:US\)/
+  );
+});
+
+test("lists every politician matching a search", async () => {
+  const politicians = await searchPoliticians("Michael");
+
+  assert.deepEqual(politicians, [
+    { id: "M001157", name: "Michael McCaul", party: "Republican", chamber: "House", state: "Texas" },
+    { id: "G000591", name: "Michael Guest", party: "Republican", chamber: "House", state: "Mississippi" },
+  ]);
+});
+
+test("refuses to guess between ambiguous politician names", async () => {
+  await assert.rejects(
+    getPoliticianId("Michael"),
+    /Ambiguous name matches 2 politicians: Michael McCaul \(M001157, Republican, House, Texas\); Michael Guest \(G000591/
+  );
+  assert.equal(await getPoliticianId("Michael McCaul"), "M001157");
+  assert.equal(await getPoliticianId("G000591"), "G000591");
+});
+
+test("reports a clear error when no issuer matches", async () => {
+  await assert.rejects(getIssuerId("Nonexistent Holdings"), /Failed to get issuer ID for "Nonexistent Holdings"/);
+});
+
+test("filters politician trades by politician and type", async () => {
+  const pelosi = await getPoliticianTrades(null, "Nancy Pelosi", null, [], 90);
+  assert.equal(pelosi.totalTrades, 2);
+  assert.ok(pelosi.trades.every((trade) => trade.politician.id === "P000197"));
+  assert.equal(pelosi.coverage.complete, true);
+
+  const sells = await getPoliticianTrades(null, null, null, ["SELL"], 90);
+  assert.deepEqual(sells.trades.map((trade) => trade.issuer.name), ["Apple Inc"]);
+  assert.equal(sells.filters.type[0], "SELL");
+});
+
+test("filters trades by chamber, state, owner and size", async () => {
+  const senate = await getPoliticianTrades(null, null, null, [], 90, 50, undefined, { chamber: "SENATE" });
+  assert.deepEqual(senate.trades.map((trade) => trade.politician.name), ["Tommy Tuberville"]);
+
+  const texas = await getPoliticianTrades(null, null, null, [], 90, 50, undefined, { state: "tx" });
+  assert.deepEqual(texas.trades.map((trade) => trade.politician.name), ["Dan Crenshaw"]);
+
+  const spouse = await getPoliticianTrades(null, null, null, [], 90, 50, undefined, { owner: ["SPOUSE"] });
+  assert.equal(spouse.totalTrades, 2);
+  assert.ok(spouse.trades.every((trade) => trade.transaction.owner === "spouse"));
+
+  const large = await getPoliticianTrades(null, null, null, [], 90, 1, undefined, { minSize: 250_000 });
+  assert.deepEqual(large.trades.map((trade) => trade.transaction.size), ["1M–5M"]);
+  assert.equal(large.coverage.stopReason, "limit");
+});
+
+test("sends trade filters to the site as query parameters", async () => {
+  await getPoliticianTrades(null, null, null, [], 90, 50, undefined, {
+    state: "TX",
+    minSize: 250_000,
+    assetType: ["ETF"],
+    sector: ["Information Technology"],
+  });
+  const url = fixture.server.requests.filter((request) => request.pathname === "/trades").at(-1)!;
+
+  assert.equal(url.searchParams.get("state"), "tx");
+  assert.equal(url.searchParams.get("tradeSize"), "6,7,8,9,10,11");
+  assert.equal(url.searchParams.get("assetType"), "etf");
+  assert.equal(url.searchParams.get("sector"), "information-technology");
+});
+
+test("walks a result set page by page with cursors", async () => {
+  const seen: number[] = [];
+  const names: string[] = [];
+  let cursor: string | undefined;
+  let pages = 0;
+  do {
+    const page = await getPoliticianTrades(null, null, null, [], 90, 2, undefined, {}, { cursor });
+    seen.push(...page.trades.map((trade) => trade.index));
+    names.push(...page.trades.map((trade) => `${trade.politician.name}|${trade.issuer.name}`));
+    cursor = page.nextCursor ?? undefined;
+    pages++;
+  } while (cursor && pages < 10);
+
+  assert.deepEqual(seen, [1, 2, 3, 4, 5]);
+  assert.equal(new Set(names).size, 5);
+});
+
+test("sorts trades by size or reporting gap", async () => {
+  const bySize = await getPoliticianTrades(null, null, null, [], 90, 3, undefined, {}, { sortBy: "size" });
+  assert.deepEqual(bySize.trades.map((trade) => trade.transaction.size), ["1M–5M", "500K–1M", "50K–100K"]);
+  assert.ok(bySize.nextCursor);
+
+  const rest = await getPoliticianTrades(null, null, null, [], 90, 3, undefined, {}, { sortBy: "size", cursor: bySize.nextCursor! });
+  assert.deepEqual(rest.trades.map((trade) => trade.transaction.size), ["15K–50K", "1K–15K"]);
+  assert.equal(rest.nextCursor, null);
+
+  const byGap = await getPoliticianTrades(null, null, null, [], 90, 50, undefined, {}, { sortBy: "reportingGap", sortDirection: "asc" });
+  assert.deepEqual(byGap.trades.map((trade) => trade.dates.reportingGapDays), [18, 20, 25, 35, 60]);
+});
+
+test("rejects a cursor from a different query", async () => {
+  const first = await getPoliticianTrades(null, null, null, [], 90, 2);
+
+  await assert.rejects(
+    getPoliticianTrades(null, null, null, ["BUY"], 90, 2, undefined, {}, { cursor: first.nextCursor! }),
+    /cursor belongs to a different query/
+  );
+  await assert.rejects(getPoliticianTrades(null, null, null, [], 90, 2, undefined, {}, { cursor: "garbage" }), /Invalid cursor/);
+});
+
+test("ranks top traded assets from the local store", async () => {
+  const result = await getTopTradedAssets(10, 90);
+
+  assert.deepEqual(
+    result.assets.map((asset) => [asset.issuer, asset.tradeCount]),
+    [["NVIDIA Corp", 2], ["Apple Inc", 2], ["Microsoft Corp", 1]]
+  );
+  assert.equal(result.coverage.complete, true);
+});
+
+test("answers repeat questions from the store without re-scraping", async () => {
+  const before = fixture.server.requests.filter((url) => url.pathname === "/trades").length;
+  await getTopTradedAssets(10, 90);
+  await getBuyMomentumAssets(10, 90);
+  const afterCount = fixture.server.requests.filter((url) => url.pathname === "/trades").length;
+
+  assert.equal(afterCount, before);
+});
+
+test("scrapes disclosure-date windows, which can include filings older than the store", async () => {
+  const before = fixture.server.requests.filter((url) => url.pathname === "/trades").length;
+  const result = await getTradesInRange({ from: daysAgo(10), to: null, field: "disclosure" }, {});
+  const requests = fixture.server.requests.filter((url) => url.pathname === "/trades").slice(before);
+
+  assert.ok(requests.length > 0);
+  assert.ok(requests.every((url) => url.searchParams.get("sortBy") === "-pubDate"));
+  assert.equal(result.trades.length, 4);
+  assert.equal(result.coverage.pagesFetched, requests.length);
+});
+
+test("scrapes a window with no start date within a page budget", async () => {
+  const result = await getTradesInRange({ from: null, to: daysAgo(30), field: "trade" }, {});
+  assert.ok(result.trades.every((trade) => trade.dates.tradeDate! <= daysAgo(30)));
+  assert.equal(result.coverage.complete, true);
+
+  const cutShort = await getTradesInRange({ from: null, to: daysAgo(30), field: "trade" }, {}, 0);
+  assert.deepEqual([cutShort.coverage.complete, cutShort.coverage.stopReason], [false, "maxPages"]);
+});
+
+test("computes politician stats with dollar volume", async () => {
+  const stats = await getPoliticianStats("Nancy Pelosi", 90);
+
+  assert.equal(stats.totalTrades, 2);
+  assert.equal(stats.buys, 1);
+  assert.equal(stats.sells, 1);
+  assert.equal(stats.estimatedBuyVolume, 3_000_000);
+  assert.equal(stats.estimatedSellVolume, 750_000);
+  assert.equal(stats.dollarBuySellRatio, 4);
+  assert.deepEqual(stats.mostTradedAssets.map((asset) => asset.issuer), ["NVIDIA Corp", "Apple Inc"]);
+});
+
+test("reads a politician's profile page", async () => {
+  const profile = await getPoliticianProfile("Nancy Pelosi");
+
+  assert.equal(profile.id, "P000197");
+  assert.equal(profile.name, "Nancy Pelosi");
+  assert.equal(profile.state, "California");
+  assert.equal(profile.district, "California 11th");
+  assert.equal(profile.yearsActive, "1987 - Present");
+  assert.equal(profile.yearsInOffice, new Date().getUTCFullYear() - 1987);
+  assert.equal(profile.dateOfBirth, "1940-03-26");
+  assert.equal(profile.totalTrades, 139);
+  assert.equal(profile.issuersTraded, 27);
+  assert.equal(profile.estimatedTotalVolume, 187_510_000);
+  assert.equal(profile.lastTraded, daysAgo(20));
+  assert.deepEqual(profile.committees, ["House Appropriations", "House Permanent Select Committee on Intelligence"]);
+});
+
+test("includes the profile in politician stats on request", async () => {
+  const withProfile = await getPoliticianStats("P000197", 90, undefined, true);
+  assert.equal(withProfile.profile?.district, "California 11th");
+  assert.equal(withProfile.totalTrades, 2);
+
+  const without = await getPoliticianStats("P000197", 90);
+  assert.equal("profile" in without, false);
+});
+
+test("computes asset stats over the requested window", async () => {
+  const recent = await getAssetStats("NVIDIA", 90);
+  assert.equal(recent.totalTrades, 2);
+  assert.equal(recent.buys, 2);
+
+  const year = await getAssetStats("NVIDIA", { days: 365 });
+  assert.equal(year.totalTrades, 3);
+  assert.equal(year.sells, 1);
+  assert.deepEqual(
+    year.mostActiveTraders.map((trader) => trader.politician).sort(),
+    ["Nancy Pelosi", "Ro Khanna", "Tommy Tuberville"]
+  );
+});
+
+test("reads an issuer's profile page", async () => {
+  const profile = await getIssuerProfile("NVDA");
+
+  assert.equal(profile.id, "435544");
+  assert.equal(profile.name, "NVIDIA Corp");
+  assert.equal(profile.ticker, "NVDA:US");
+  assert.equal(profile.sector, "Information Technology");
+  assert.equal(profile.industry, "Semiconductors");
+  assert.equal(profile.country, "US");
+  assert.equal(profile.marketCap, "$4.46T");
+  assert.equal(profile.estimatedMarketCap, 4_460_000_000_000);
+  assert.equal(profile.sharePrice, 183.16);
+  assert.equal(profile.totalTrades, 412);
+  assert.equal(profile.politiciansTrading, 68);
+  assert.equal(profile.estimatedTotalVolume, 95_200_000);
+  assert.equal(profile.lastTraded, daysAgo(20));
+});
+
+test("merges the issuer profile into asset stats on request", async () => {
+  const stats = await getAssetStats("NVIDIA", 90, undefined, true);
+
+  assert.equal(stats.profile?.industry, "Semiconductors");
+  assert.equal(stats.totalTrades, 2);
+});
+
+test("ranks buy momentum by buy/sell ratio", async () => {
+  const result = await getBuyMomentumAssets(10, 90);
+
+  assert.deepEqual(
+    result.assets.map((asset) => [asset.issuer, asset.buys, asset.sells]),
+    [["NVIDIA Corp", 2, 0], ["Microsoft Corp", 1, 0]]
+  );
+  assert.equal(result.assets[0].estimatedBuyVolume, 3_032_500);
+  assert.equal(result.assets[0].dollarBuySellRatio, null);
+});
+
+test("splits buy momentum by party", async () => {
+  const result = await getPartyBuyMomentum(5, 90);
+
+  assert.deepEqual(result.democratFavorites.map((asset) => asset.issuer), ["NVIDIA Corp", "Microsoft Corp"]);
+  assert.deepEqual(result.republicanFavorites.map((asset) => asset.issuer), ["NVIDIA Corp", "Apple Inc"]);
+  assert.deepEqual(result.consensus, []);
+});
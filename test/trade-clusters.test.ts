@@ -0,0 +1,57 @@
+/**
+ * Offline tests for coordinated-trading clusters
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { daysAgo } from "../src/dates.js";
+import { findTradeClusters } from "../src/trade-clusters.js";
+
+useFixtureEnvironment();
+
+test("groups same-direction trades in one issuer by distinct politicians within the window", async () => {
+  const result = await findTradeClusters(null, 90, 20);
+  assert.equal(result.windowDays, 20);
+  assert.equal(result.totalClusters, 1);
+
+  const [cluster] = result.clusters;
+  assert.equal(cluster.issuer.ticker, "NVDA:US");
+  assert.equal(cluster.direction, "buy");
+  assert.equal(cluster.politicianCount, 2);
+  assert.equal(cluster.bipartisan, true);
+  assert.equal(cluster.firstTradeDate, daysAgo(40));
+  assert.equal(cluster.lastTradeDate, daysAgo(20));
+  assert.equal(cluster.spreadDays, 20);
+  assert.deepEqual(
+    cluster.members.map((member) => [member.id, member.chamber, member.daysAfterFirstTrade]),
+    [
+      ["T000278", "Senate", 0],
+      ["P000197", "House", 20],
+    ]
+  );
+  assert.deepEqual(cluster.trades.map((trade) => trade.tradeDate), [daysAgo(40), daysAgo(20)]);
+});
+
+test("reports members' committees from their profile pages", async () => {
+  const [cluster] = (await findTradeClusters("NVDA", 90, 30)).clusters;
+  const committees = Object.fromEntries(cluster.members.map((member) => [member.id, member.committees]));
+  assert.deepEqual(committees.P000197, ["House Appropriations", "House Permanent Select Committee on Intelligence"]);
+  assert.deepEqual(committees.T000278, ["Agriculture, Nutrition, and Forestry", "Armed Services", "Health, Education, Labor, and Pensions"]);
+  assert.deepEqual(cluster.sharedCommittees, []);
+
+  const withoutCommittees = await findTradeClusters("NVDA", 90, 30, 2, 20, undefined, false);
+  assert.ok(withoutCommittees.clusters[0].members.every((member) => member.committees === null));
+});
+
+test("needs the trades within windowDays and enough distinct politicians", async () => {
+  assert.equal((await findTradeClusters(null, 90, 7)).totalClusters, 0);
+  assert.equal((await findTradeClusters(null, 90, 20, 3)).totalClusters, 0);
+  // The fixture has a single cluster; a limit trims the list, not the total
+  const limited = await findTradeClusters(null, 90, 20, 2, 0, undefined, false);
+  assert.equal(limited.totalClusters, 1);
+  assert.equal(limited.clusters.length, 0);
+  // Pelosi sold AAPL while Crenshaw bought it, so opposite directions never cluster
+  assert.equal((await findTradeClusters("AAPL", 365, 60)).totalClusters, 0);
+});
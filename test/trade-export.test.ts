@@ -0,0 +1,90 @@
+/**
+ * Offline tests for exporting trades to CSV, NDJSON and Parquet
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync, symlinkSync } from "fs";
+import { join } from "path";
+import { parquetReadObjects } from "hyparquet";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { getPoliticianTrades } from "../src/politician-trades-scraper.js";
+import { exportTrades, flattenTrade, getExportDir } from "../src/trade-export.js";
+import { TradeWithPrice } from "../src/types.js";
+
+let trades: TradeWithPrice[];
+
+const fixture = useFixtureEnvironment({
+  setup: async () => {
+    trades = (await getPoliticianTrades(null, "Nancy Pelosi", null, [], 90)).trades;
+  },
+});
+
+test("flattens nested fields into columns", () => {
+  const row = flattenTrade(trades[0]);
+  assert.equal(row.politician_name, "Nancy Pelosi");
+  assert.equal(row.issuer_ticker, "NVDA:US");
+  assert.equal(row.transaction_owner, "spouse");
+  assert.equal(row.transaction_midpoint, 3000000);
+  assert.equal(row.dates_reportingGapDays, 20);
+  assert.equal(row.detailUrl, `${fixture.server.baseUrl}/trades/20003791001`);
+  assert.ok(Object.values(row).every((value) => value === null || typeof value !== "object"));
+});
+
+test("writes CSV with a header row and quoted fields", async () => {
+  const quoted = { ...trades[1], issuer: { ...trades[1].issuer, name: 'Apple Inc, "Class A"' } };
+  const result = await exportTrades([trades[0], quoted], join(fixture.dataDir, "out", "trades.csv"));
+  assert.equal(result.format, "csv");
+  assert.equal(result.rowCount, 2);
+  assert.equal(result.path, join(fixture.dataDir, "out", "trades.csv"));
+
+  const lines = readFileSync(result.path, "utf8").trimEnd().split("\r\n");
+  assert.equal(lines.length, 3);
+  assert.equal(lines[0], result.columns.join(","));
+  assert.ok(lines[0].startsWith("index,politician_id,politician_name,"));
+  assert.ok(lines[2].includes(',"Apple Inc, ""Class A""",'));
+});
+
+test("writes NDJSON, one flattened trade per line", async () => {
+  const result = await exportTrades(trades, join(fixture.dataDir, "trades.jsonl"));
+  assert.equal(result.format, "ndjson");
+
+  const rows = readFileSync(result.path, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+  assert.deepEqual(rows, trades.map(flattenTrade));
+});
+
+test("writes Parquet that reads back with typed columns", async () => {
+  const result = await exportTrades(trades, join(fixture.dataDir, "trades.data"), "parquet");
+  assert.equal(result.rowCount, trades.length);
+
+  const file = readFileSync(result.path);
+  const rows = await parquetReadObjects({ file: file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) });
+  assert.equal(rows.length, trades.length);
+  assert.equal(rows[0].politician_name, "Nancy Pelosi");
+  assert.equal(rows[0].transaction_midpoint, 3000000);
+  assert.equal(rows[0].index, 1);
+  assert.deepEqual(Object.keys(rows[0]), result.columns);
+});
+
+test("rejects unknown formats", async () => {
+  await assert.rejects(exportTrades(trades, join(fixture.dataDir, "trades.xlsx")), /format is required/);
+  await assert.rejects(exportTrades(trades, join(fixture.dataDir, "trades.csv"), "xml"), /format must be 'csv', 'ndjson' or 'parquet'/);
+});
+
+test("confines tool exports to the export directory", async () => {
+  const exportDir = getExportDir();
+  assert.equal(exportDir, join(fixture.dataDir, "exports"));
+
+  const result = await exportTrades(trades, "nested/trades.csv", undefined, exportDir);
+  assert.equal(result.path, join(exportDir, "nested", "trades.csv"));
+
+  await assert.rejects(exportTrades(trades, "../trades.csv", undefined, exportDir), /must be inside the export directory/);
+  await assert.rejects(exportTrades(trades, join(fixture.dataDir, "trades.csv"), undefined, exportDir), /must be inside the export directory/);
+
+  // A symlink inside the directory doesn't lead out of it either
+  symlinkSync(fixture.dataDir, join(exportDir, "escape"));
+  await assert.rejects(exportTrades(trades, "escape/trades.csv", undefined, exportDir), /must be inside the export directory/);
+  symlinkSync(join(fixture.dataDir, "trades.jsonl"), join(exportDir, "linked.jsonl"));
+  await assert.rejects(exportTrades(trades, "linked.jsonl", undefined, exportDir), /must not be a symbolic link/);
+});
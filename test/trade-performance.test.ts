@@ -0,0 +1,88 @@
+/**
+ * Offline tests for price history files and post-trade returns
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { daysAgo } from "../src/dates.js";
+import { parsePriceCsv, priceOnOrAfter } from "../src/price-history.js";
+import { getTradePerformance } from "../src/trade-performance.js";
+
+/**
+ * Daily closes for the last 120 days, compounding at a fixed rate per day
+ */
+function dailyCloses(dailyRate: number): Array<{ date: string; close: number }> {
+  return Array.from({ length: 121 }, (_, day) => ({ date: daysAgo(120 - day), close: 100 * (1 + dailyRate) ** day }));
+}
+
+useFixtureEnvironment({
+  setup: ({ dataDir }) => {
+    // NVDA gains 1% a day, AAPL loses 0.5% a day and the benchmark gains 0.1% a day
+    const priceDir = join(dataDir, "prices");
+    mkdirSync(priceDir);
+    writeFileSync(
+      join(priceDir, "NVDA.csv"),
+      ["Date,Open,High,Low,Close,Adj Close,Volume", ...dailyCloses(0.01).map(({ date, close }) => `${date},1,1,1,999,${close},1000`)].join("\n")
+    );
+    writeFileSync(join(priceDir, "aapl.csv"), ["date,close", ...dailyCloses(-0.005).map(({ date, close }) => `${date},${close}`)].join("\n"));
+    writeFileSync(join(priceDir, "SPY.json"), JSON.stringify(dailyCloses(0.001)));
+  },
+});
+
+test("parses CSV price files and looks up the next trading day", () => {
+  const bars = parsePriceCsv(
+    ["Date,Open,High,Low,Close,Adj Close,Volume", "2024-01-08,10,11,9,10.5,10.4,100", "2024-01-05,9,10,8,9.5,9.4,100", "2024-01-06,null,null,null,null,null,0"].join("\r\n")
+  );
+  assert.deepEqual(bars.map((bar) => bar.date), ["2024-01-05", "2024-01-08"]);
+  assert.deepEqual(bars[0], { date: "2024-01-05", open: 9, high: 10, low: 8, close: 9.5, adjClose: 9.4 });
+
+  const series = { ticker: "TEST", source: "test", bars };
+  assert.deepEqual(priceOnOrAfter(series, "2024-01-06"), { date: "2024-01-08", price: 10.4 });
+  assert.equal(priceOnOrAfter(series, "2024-01-09"), null);
+  assert.equal(priceOnOrAfter(series, "2023-12-20"), null);
+
+  assert.throws(() => parsePriceCsv("date,close\n01/05/2024,9.5"), /row 1: date must be YYYY-MM-DD/);
+  assert.throws(() => parsePriceCsv("day,price\n2024-01-05,9.5"), /date and close columns/);
+});
+
+test("computes returns after the trade and disclosure dates against the benchmark", async () => {
+  const result = await getTradePerformance(null, "Nancy Pelosi", null, [], 90);
+  assert.equal(result.benchmark, "SPY");
+  assert.deepEqual(result.missingPriceHistory, []);
+  assert.equal(result.pricedTrades, 2);
+
+  // NVDA bought 20 days ago: later horizons haven't happened yet
+  const nvda = result.trades.find((trade) => trade.issuer.ticker === "NVDA:US")!;
+  assert.equal(nvda.afterTrade!.entryDate, daysAgo(20));
+  assert.deepEqual(nvda.afterTrade!.returnPct, { "1d": 1, "7d": 7.21, "30d": null, "90d": null });
+  assert.deepEqual(nvda.afterTrade!.benchmarkReturnPct, { "1d": 0.1, "7d": 0.7, "30d": null, "90d": null });
+  assert.deepEqual(nvda.afterTrade!.excessReturnPct, { "1d": 0.9, "7d": 6.51, "30d": null, "90d": null });
+  assert.equal(nvda.afterDisclosure!.entryDate, daysAgo(0));
+  assert.equal(nvda.afterDisclosure!.returnPct["1d"], null);
+
+  // Selling AAPL before it fell counts as well timed
+  const pelosi = result.politicians[0];
+  assert.equal(pelosi.politician, "Nancy Pelosi");
+  assert.equal(pelosi.pricedTrades, 2);
+  assert.deepEqual(pelosi.afterTrade["1d"], { trades: 2, averageReturnPct: 0.75, averageExcessReturnPct: 0.75, beatBenchmarkRate: 1 });
+  assert.deepEqual(pelosi.afterTrade["90d"], { trades: 0, averageReturnPct: null, averageExcessReturnPct: null, beatBenchmarkRate: null });
+});
+
+test("reports tickers without price files", async () => {
+  const result = await getTradePerformance(null, null, null, [], 90, 200, undefined, {}, {}, "QQQ");
+  assert.deepEqual(result.missingPriceHistory.sort(), ["MSFT", "QQQ"]);
+  assert.equal(result.totalTrades, 5);
+  assert.equal(result.pricedTrades, 4);
+
+  const msft = result.trades.find((trade) => trade.issuer.ticker === "MSFT:US")!;
+  assert.equal(msft.afterTrade, null);
+  assert.ok(result.trades.every((trade) => trade.afterTrade === null || trade.afterTrade.excessReturnPct["1d"] === null));
+  assert.equal(result.overall.afterTrade["1d"].averageExcessReturnPct, null);
+  assert.ok(result.overall.afterTrade["1d"].trades > 0);
+
+  await assert.rejects(getTradePerformance(null, null, null, [], 90, 200, undefined, {}, {}, "N/A"), /benchmark must be a ticker/);
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for trade size brackets
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isSizeWithin, parseTradeSize, siteTradeSizeBrackets } from "../src/trade-size.js";
+
+test("parses brackets, open-ended sizes and exact amounts into dollars", () => {
+  assert.deepEqual(parseTradeSize("1K–15K"), { minAmount: 1_000, maxAmount: 15_000, midpoint: 8_000 });
+  assert.deepEqual(parseTradeSize("1M - 5M"), { minAmount: 1_000_000, maxAmount: 5_000_000, midpoint: 3_000_000 });
+  assert.deepEqual(parseTradeSize("< 1K"), { minAmount: 0, maxAmount: 1_000, midpoint: 500 });
+  assert.deepEqual(parseTradeSize("50M+"), { minAmount: 50_000_000, maxAmount: null, midpoint: 50_000_000 });
+  assert.deepEqual(parseTradeSize("> 50M"), { minAmount: 50_000_000, maxAmount: null, midpoint: 50_000_000 });
+  assert.deepEqual(parseTradeSize("$250,000"), { minAmount: 250_000, maxAmount: 250_000, midpoint: 250_000 });
+});
+
+test("returns nulls for text that isn't a size", () => {
+  const unknown = { minAmount: null, maxAmount: null, midpoint: null };
+  assert.deepEqual(parseTradeSize(""), unknown);
+  assert.deepEqual(parseTradeSize("N/A"), unknown);
+  assert.deepEqual(parseTradeSize("1K–lots"), unknown);
+});
+
+test("matches brackets that lie entirely within dollar bounds", () => {
+  const oneToFiveMillion = parseTradeSize("1M–5M");
+  assert.equal(isSizeWithin(oneToFiveMillion, 1_000_000), true);
+  assert.equal(isSizeWithin(oneToFiveMillion, 1_000_001), false);
+  assert.equal(isSizeWithin(oneToFiveMillion, undefined, 5_000_000), true);
+  assert.equal(isSizeWithin(oneToFiveMillion, undefined, 4_999_999), false);
+
+  // "50M+" has no upper bound, so any maximum excludes it
+  const overFiftyMillion = parseTradeSize("50M+");
+  assert.equal(isSizeWithin(overFiftyMillion, 25_000_000), true);
+  assert.equal(isSizeWithin(overFiftyMillion, undefined, 100_000_000), false);
+
+  // Unknown sizes match only when there are no bounds
+  const unknown = parseTradeSize("");
+  assert.equal(isSizeWithin(unknown), true);
+  assert.equal(isSizeWithin(unknown, 0), false);
+});
+
+test("maps dollar bounds onto the site's size filter brackets", () => {
+  assert.deepEqual(siteTradeSizeBrackets(1_000_000), [8, 9, 10, 11]);
+  assert.deepEqual(siteTradeSizeBrackets(undefined, 15_000), [1, 2]);
+  assert.deepEqual(siteTradeSizeBrackets(50_000_000), [11]);
+  assert.deepEqual(siteTradeSizeBrackets(), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+});
@@ -0,0 +1,129 @@
+/**
+ * Offline tests for the local trade store and its sync
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { daysAgo } from "../src/dates.js";
+import { getTradesInRange, scrapeTradePages, syncTradeStore } from "../src/politician-trades-scraper.js";
+import { isStoreComplete, loadTradeStore, mergeTrades, saveTradeStore, tradeKey } from "../src/trade-store.js";
+
+// Two trades per page, so the six fixture trades span three pages
+const fixture = useFixtureEnvironment({ maxPageSize: 2 });
+
+test("resumes an incremental sync that ran out of page budget", async () => {
+  // Seed the store as if the last sync had finished when only the two oldest trades were disclosed
+  const { trades } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`);
+  const seeded = await loadTradeStore();
+  mergeTrades(seeded, trades.slice(-2));
+  seeded.syncedThrough = seeded.latestDisclosure;
+  seeded.backfillComplete = true;
+  await saveTradeStore(seeded);
+  assert.equal(seeded.syncedThrough, daysAgo(12));
+
+  // One page reaches only the newest disclosures; the pages between them and the stored trades are a gap
+  const cutShort = await syncTradeStore(1);
+  assert.deepEqual(cutShort, { added: 2, pagesFetched: 1, caughtUp: false, failed: false });
+  let store = await loadTradeStore();
+  assert.equal(store.trades.length, 4);
+  assert.equal(store.latestDisclosure, daysAgo(0));
+  assert.equal(store.syncedThrough, daysAgo(12));
+  assert.equal(isStoreComplete(store), false);
+
+  // The next sync pages down from the newest page again until it reaches the stored trades
+  const resumed = await syncTradeStore();
+  assert.equal(resumed.caughtUp, true);
+  assert.equal(resumed.added, 2);
+  store = await loadTradeStore();
+  assert.equal(store.trades.length, 6);
+  assert.equal(store.syncedThrough, daysAgo(0));
+  assert.equal(isStoreComplete(store), true);
+
+  // Once caught up, a sync stops at the first page older than the watermark
+  const upToDate = await syncTradeStore();
+  assert.deepEqual(upToDate, { added: 0, pagesFetched: 2, caughtUp: true, failed: false });
+});
+
+test("keys trades by their Capitol Trades ID, so identical lots are stored separately", async () => {
+  const { trades } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`, { maxPages: 1 });
+  const lot = trades[0];
+  const twin = { ...lot, detailUrl: lot.detailUrl!.replace(/\/trades\/[^/]+$/, "/trades/99999999") };
+  assert.match(tradeKey(lot), /^trade:\d+$/);
+  assert.notEqual(tradeKey(twin), tradeKey(lot));
+
+  const store = { ...(await loadTradeStore()), trades: [] };
+  assert.equal(mergeTrades(store, [lot, twin, lot]), 2);
+  assert.equal(store.trades.length, 2);
+
+  // Rows without a detail link fall back to their politician, issuer, dates, type and size
+  const unlinked = { ...lot, detailUrl: null };
+  assert.equal(tradeKey(unlinked), tradeKey({ ...twin, detailUrl: null }));
+});
+
+test("reports a read as incomplete when its sync runs out of page budget", async () => {
+  // Stored through today, but the site may have published more of today's disclosures since
+  const { trades } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`);
+  const store = { ...(await loadTradeStore()), trades: [], lastSync: null };
+  mergeTrades(store, [trades[0], ...trades.slice(-2)]);
+  store.syncedThrough = store.latestDisclosure;
+  store.backfillComplete = true;
+  await saveTradeStore(store);
+  assert.equal(isStoreComplete(store), true);
+
+  // The first page holds only today's disclosures, so one page can't reach the stored trades
+  const cutShort = await getTradesInRange({ from: daysAgo(90), to: null, field: "trade" }, {}, 1);
+  assert.deepEqual([cutShort.coverage.complete, cutShort.coverage.stopReason, cutShort.coverage.pagesFetched], [false, "maxPages", 1]);
+});
+
+test("keeps what a sync fetched before a page failed and reads the store as incomplete", async () => {
+  const { trades } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`);
+  const store = { ...(await loadTradeStore()), trades: [], lastSync: null };
+  mergeTrades(store, trades.slice(-2));
+  store.syncedThrough = store.latestDisclosure;
+  store.backfillComplete = true;
+  await saveTradeStore(store);
+
+  // The first page loads; the page after it doesn't
+  fixture.server.failNext("/trades", { status: 404, after: 1 });
+  const result = await getTradesInRange({ from: daysAgo(365), to: null, field: "trade" }, {});
+  assert.deepEqual([result.coverage.complete, result.coverage.stopReason, result.coverage.pagesFetched], [false, "error", 1]);
+  assert.equal(result.trades.length, 4);
+
+  // The fetched trades are saved, but the watermark and lastSync stay put so the next read syncs again
+  const saved = await loadTradeStore();
+  assert.equal(saved.trades.length, 4);
+  assert.equal(saved.syncedThrough, daysAgo(12));
+  assert.equal(saved.lastSync, null);
+
+  const retried = await getTradesInRange({ from: daysAgo(365), to: null, field: "trade" }, {});
+  assert.deepEqual([retried.coverage.complete, retried.trades.length], [true, 6]);
+});
+
+test("resumes an unfinished backfill from the page it reached, however many trades are stored", async () => {
+  // A first sync that runs out of budget after two of the three pages
+  await saveTradeStore({ ...(await loadTradeStore()), trades: [], latestDisclosure: null, syncedThrough: null, backfillComplete: false, backfillPage: 1 });
+  const first = await syncTradeStore(2);
+  assert.deepEqual([first.added, first.caughtUp], [4, true]);
+  const store = await loadTradeStore();
+  assert.deepEqual([store.backfillComplete, store.backfillPage], [false, 3]);
+
+  // Trades the site has since stopped listing stay in the store, so its size overstates the pages read
+  const { trades } = await scrapeTradePages(`${fixture.server.baseUrl}/trades`, { maxPages: 1 });
+  const delisted = Array.from({ length: 400 }, (_, i) => ({
+    ...trades[0],
+    detailUrl: `${fixture.server.baseUrl}/trades/${90000000 + i}`,
+    dates: { ...trades[0].dates, disclosureDate: daysAgo(300) },
+  }));
+  mergeTrades(store, delisted);
+  store.lastSync = null;
+  await saveTradeStore(store);
+
+  const resumed = await syncTradeStore();
+  assert.equal(resumed.added, 2);
+  const backfilled = await loadTradeStore();
+  assert.equal(backfilled.backfillComplete, true);
+  assert.equal(backfilled.trades.length, 406);
+  assert.equal(backfilled.earliestDisclosure, daysAgo(300));
+});
@@ -0,0 +1,83 @@
+/**
+ * Offline tests for watchlists and new-disclosure detection
+ * Run with: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { useFixtureEnvironment } from "./fixture-server.js";
+import { addToWatchlist, checkWatchlist, listWatchlists, removeFromWatchlist } from "../src/watchlist.js";
+
+const fixture = useFixtureEnvironment();
+
+test("adds politicians and tickers by name, resolved to IDs", async () => {
+  const watchlist = await addToWatchlist("team", ["Nancy Pelosi"], ["NVDA"]);
+  assert.deepEqual(watchlist.politicians, [{ label: "Nancy Pelosi", id: "P000197" }]);
+  assert.deepEqual(watchlist.tickers, [{ label: "NVDA", id: "435544" }]);
+  assert.equal(watchlist.lastChecked, null);
+
+  // Adding the same politician by ID doesn't duplicate it
+  const again = await addToWatchlist("team", ["P000197"], []);
+  assert.equal(again.politicians.length, 1);
+
+  await assert.rejects(addToWatchlist("team", ["Michael"], []), /Ambiguous name/);
+});
+
+test("reports each new trade once, then nothing until new disclosures appear", async () => {
+  const first = await checkWatchlist("team");
+  assert.equal(first.firstCheck, true);
+  // Pelosi's two trades plus Tuberville's and Khanna's NVDA trades; Pelosi's NVDA trade matches both entries
+  assert.equal(first.totalNewTrades, 4);
+  assert.equal(new Set(first.trades.map((trade) => trade.detailUrl)).size, 4);
+  assert.deepEqual(first.trades.map((trade) => trade.index), [1, 2, 3, 4]);
+  const disclosures = first.trades.map((trade) => trade.dates.disclosureDate || "");
+  assert.deepEqual(disclosures, [...disclosures].sort().reverse());
+
+  const second = await checkWatchlist("team");
+  assert.equal(second.firstCheck, false);
+  assert.equal(second.totalNewTrades, 0);
+
+  // Forget one reported trade, as if it had just been published
+  const filePath = join(fixture.dataDir, "watchlists.json");
+  const data = JSON.parse(readFileSync(filePath, "utf8"));
+  delete data.watchlists[0].seen["trade:20003791001"];
+  writeFileSync(filePath, JSON.stringify(data));
+
+  const preview = await checkWatchlist("team", false);
+  assert.deepEqual(preview.trades.map((trade) => trade.detailUrl), [`${fixture.server.baseUrl}/trades/20003791001`]);
+  assert.equal((await checkWatchlist("team")).totalNewTrades, 1);
+  assert.equal((await checkWatchlist("team")).totalNewTrades, 0);
+});
+
+test("removes entries and deletes watchlists", async () => {
+  await addToWatchlist("other", [], ["AAPL"]);
+  assert.deepEqual((await listWatchlists()).map((watchlist) => watchlist.name), ["team", "other"]);
+
+  const updated = await removeFromWatchlist("team", ["nancy pelosi"], []);
+  assert.deepEqual(updated?.politicians, []);
+  await assert.rejects(removeFromWatchlist("team", [], ["AAPL"]), /"AAPL" is not on the watchlist/);
+
+  assert.equal(await removeFromWatchlist("other", [], []), null);
+  assert.deepEqual((await listWatchlists()).map((watchlist) => watchlist.name), ["team"]);
+  await assert.rejects(checkWatchlist("missing"), /No watchlist named "missing". Existing watchlists: team/);
+});
+
+test("keeps the check window open when a check can't read every trade", async () => {
+  await addToWatchlist("partial", ["P000197"], []);
+  // The first page of Pelosi's trades loads; the page after it doesn't
+  fixture.server.failNext("/trades", { status: 404, after: 1 });
+
+  const partial = await checkWatchlist("partial");
+  assert.equal(partial.complete, false);
+  assert.equal(partial.totalNewTrades, 2);
+  assert.equal(partial.watchlist.lastChecked, null);
+
+  // The next check reads the first check's window again, without repeating what it reported
+  const retry = await checkWatchlist("partial");
+  assert.equal(retry.complete, true);
+  assert.equal(retry.firstCheck, true);
+  assert.equal(retry.totalNewTrades, 0);
+  assert.notEqual(retry.watchlist.lastChecked, null);
+});